@@ -0,0 +1,312 @@
+/**
+ * Server Configuration - Environment variables and config file
+ */
+
+import { readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { extname, join } from 'node:path';
+import TOML from '@iarna/toml';
+import { z } from 'zod';
+import {
+  DEFAULT_AUDIT_MAX_FILES,
+  DEFAULT_AUDIT_MAX_SIZE,
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  DEFAULT_IMPORT_MAX_ROWS,
+  DEFAULT_INSTANCE,
+  DEFAULT_LIST_ALL_MAX_RECORDS,
+  DEFAULT_MAX_SESSIONS,
+  DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+} from './constants.js';
+import type { AuditConfig, ImportConfig, InstancesConfig, ListAllConfig, ToolFilterConfig, TransportConfig } from './types.js';
+
+/** Instance profile in the config file */
+const InstanceProfileSchema = z.object({
+  url: z.string().url('Instance url must be a valid URL'),
+  tokenEnv: z.string().min(1).optional(),
+  readOnly: z.boolean().default(false),
+}).strict();
+
+/** Tool filter in the config file */
+const ToolFilterSchema = z.object({
+  include: z.array(z.string().min(1)).default([]),
+  exclude: z.array(z.string().min(1)).default([]),
+}).strict();
+
+/** Audit log settings in the config file */
+const AuditSchema = z.object({
+  path: z.string().min(1).optional(),
+  maxSize: z.number().int().positive().optional(),
+  maxFiles: z.number().int().min(0).optional(),
+}).strict();
+
+/** Config file schema (POCKETBASE_MCP_CONFIG) */
+const ConfigFileSchema = z.object({
+  defaultInstance: z.string().min(1).optional(),
+  instances: z.record(InstanceProfileSchema),
+  tools: ToolFilterSchema.optional(),
+  audit: AuditSchema.optional(),
+}).strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+/** Cached instance profiles */
+let instancesConfig: InstancesConfig | null = null;
+
+/** Cached tool filter */
+let toolFilterConfig: ToolFilterConfig | null = null;
+
+/** Cached audit settings */
+let auditConfig: AuditConfig | null = null;
+
+/**
+ * Read transport settings from the environment
+ *
+ * - POCKETBASE_MCP_TRANSPORT: "stdio" (default) or "http"
+ * - POCKETBASE_MCP_HOST / POCKETBASE_MCP_PORT: HTTP listen address
+ * - POCKETBASE_MCP_AUTH_TOKEN: bearer token required on every HTTP request
+ * - POCKETBASE_MCP_SESSION_TIMEOUT: seconds an idle HTTP session is kept
+ * - POCKETBASE_MCP_MAX_SESSIONS: maximum concurrent HTTP sessions
+ *
+ * @throws Error if a value is invalid
+ */
+export function getTransportConfig(env: Record<string, string | undefined> = process.env): TransportConfig {
+  const type = (env.POCKETBASE_MCP_TRANSPORT || 'stdio').toLowerCase();
+  if (type !== 'stdio' && type !== 'http') {
+    throw new Error(`Invalid POCKETBASE_MCP_TRANSPORT "${type}": expected "stdio" or "http"`);
+  }
+
+  const port = env.POCKETBASE_MCP_PORT ? Number(env.POCKETBASE_MCP_PORT) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid POCKETBASE_MCP_PORT "${env.POCKETBASE_MCP_PORT}": expected a port number`);
+  }
+
+  return {
+    type,
+    host: env.POCKETBASE_MCP_HOST || DEFAULT_HTTP_HOST,
+    port,
+    authToken: env.POCKETBASE_MCP_AUTH_TOKEN || null,
+    sessionIdleTimeoutMs: env.POCKETBASE_MCP_SESSION_TIMEOUT
+      ? parseIntEnv('POCKETBASE_MCP_SESSION_TIMEOUT', env.POCKETBASE_MCP_SESSION_TIMEOUT, 1) * 1000
+      : DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+    maxSessions: env.POCKETBASE_MCP_MAX_SESSIONS
+      ? parseIntEnv('POCKETBASE_MCP_MAX_SESSIONS', env.POCKETBASE_MCP_MAX_SESSIONS, 1)
+      : DEFAULT_MAX_SESSIONS,
+  };
+}
+
+/**
+ * Check whether global read-only mode is enabled (POCKETBASE_MCP_READONLY)
+ */
+export function isReadOnlyMode(env: Record<string, string | undefined> = process.env): boolean {
+  const value = (env.POCKETBASE_MCP_READONLY || '').toLowerCase();
+  return ['1', 'true', 'yes', 'on'].includes(value);
+}
+
+/**
+ * Parse config file contents (TOML when the path ends in .toml, JSON otherwise)
+ * @throws Error if the contents are invalid
+ */
+export function parseConfigFile(contents: string, path: string): ConfigFile {
+  let raw: unknown;
+  try {
+    raw = extname(path).toLowerCase() === '.toml' ? TOML.parse(contents) : JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Cannot parse config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = ConfigFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`Invalid config file ${path}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read and parse the config file at a path
+ * @throws Error if the file cannot be read or is invalid
+ */
+function readConfigFile(path: string): ConfigFile {
+  let contents: string;
+  try {
+    contents = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseConfigFile(contents, path);
+}
+
+/**
+ * Split a comma-separated list, dropping empty entries
+ */
+function parseList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Load instance profiles
+ *
+ * Uses the config file named by POCKETBASE_MCP_CONFIG when set, otherwise a
+ * single "default" profile built from POCKETBASE_URL.
+ *
+ * @throws Error if the config file cannot be read or is invalid
+ */
+export function loadInstancesConfig(env: Record<string, string | undefined> = process.env): InstancesConfig {
+  const path = env.POCKETBASE_MCP_CONFIG;
+
+  if (!path) {
+    const url = env.POCKETBASE_URL;
+    return {
+      defaultInstance: DEFAULT_INSTANCE,
+      instances: url ? { [DEFAULT_INSTANCE]: { name: DEFAULT_INSTANCE, url, readOnly: false } } : {},
+    };
+  }
+
+  const file = readConfigFile(path);
+  const names = Object.keys(file.instances);
+  if (names.length === 0) {
+    throw new Error(`Invalid config file ${path}: at least one instance is required`);
+  }
+
+  const defaultInstance = file.defaultInstance ?? names[0];
+  if (!file.instances[defaultInstance]) {
+    throw new Error(`Invalid config file ${path}: defaultInstance "${defaultInstance}" is not defined`);
+  }
+
+  return {
+    defaultInstance,
+    instances: Object.fromEntries(
+      Object.entries(file.instances).map(([name, profile]) => [name, { name, ...profile }])
+    ),
+  };
+}
+
+/**
+ * Load the tool allowlist/denylist
+ *
+ * POCKETBASE_MCP_INCLUDE_TOOLS and POCKETBASE_MCP_EXCLUDE_TOOLS (comma-separated
+ * glob patterns) take precedence over the config file's "tools" section.
+ *
+ * @throws Error if the config file cannot be read or is invalid
+ */
+export function loadToolFilterConfig(env: Record<string, string | undefined> = process.env): ToolFilterConfig {
+  const file = env.POCKETBASE_MCP_CONFIG ? readConfigFile(env.POCKETBASE_MCP_CONFIG) : null;
+
+  return {
+    include: env.POCKETBASE_MCP_INCLUDE_TOOLS !== undefined
+      ? parseList(env.POCKETBASE_MCP_INCLUDE_TOOLS)
+      : file?.tools?.include ?? [],
+    exclude: env.POCKETBASE_MCP_EXCLUDE_TOOLS !== undefined
+      ? parseList(env.POCKETBASE_MCP_EXCLUDE_TOOLS)
+      : file?.tools?.exclude ?? [],
+  };
+}
+
+/**
+ * Parse a positive integer environment variable
+ * @throws Error if the value is not an integer of at least `min`
+ */
+function parseIntEnv(name: string, value: string, min: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${name} "${value}": expected an integer >= ${min}`);
+  }
+  return parsed;
+}
+
+/**
+ * Load the audit log settings
+ *
+ * POCKETBASE_MCP_AUDIT_LOG, POCKETBASE_MCP_AUDIT_MAX_SIZE and
+ * POCKETBASE_MCP_AUDIT_MAX_FILES take precedence over the config file's
+ * "audit" section. Auditing is disabled when no path is set.
+ *
+ * @throws Error if a value is invalid
+ */
+export function loadAuditConfig(env: Record<string, string | undefined> = process.env): AuditConfig {
+  const file = env.POCKETBASE_MCP_CONFIG ? readConfigFile(env.POCKETBASE_MCP_CONFIG) : null;
+
+  return {
+    path: env.POCKETBASE_MCP_AUDIT_LOG || file?.audit?.path || null,
+    maxSize: env.POCKETBASE_MCP_AUDIT_MAX_SIZE
+      ? parseIntEnv('POCKETBASE_MCP_AUDIT_MAX_SIZE', env.POCKETBASE_MCP_AUDIT_MAX_SIZE, 1)
+      : file?.audit?.maxSize ?? DEFAULT_AUDIT_MAX_SIZE,
+    maxFiles: env.POCKETBASE_MCP_AUDIT_MAX_FILES
+      ? parseIntEnv('POCKETBASE_MCP_AUDIT_MAX_FILES', env.POCKETBASE_MCP_AUDIT_MAX_FILES, 0)
+      : file?.audit?.maxFiles ?? DEFAULT_AUDIT_MAX_FILES,
+  };
+}
+
+/**
+ * Read full pagination limits from the environment
+ *
+ * - POCKETBASE_MCP_LIST_ALL_MAX: hard cap on records fetched by one call
+ * - POCKETBASE_MCP_SPILL_DIR: where oversized results are written
+ *
+ * @throws Error if a value is invalid
+ */
+export function getListAllConfig(env: Record<string, string | undefined> = process.env): ListAllConfig {
+  return {
+    maxRecords: env.POCKETBASE_MCP_LIST_ALL_MAX
+      ? parseIntEnv('POCKETBASE_MCP_LIST_ALL_MAX', env.POCKETBASE_MCP_LIST_ALL_MAX, 1)
+      : DEFAULT_LIST_ALL_MAX_RECORDS,
+    spillDir: env.POCKETBASE_MCP_SPILL_DIR || join(tmpdir(), 'pocketbase-mcp'),
+  };
+}
+
+/**
+ * Read record import limits from the environment
+ *
+ * - POCKETBASE_MCP_IMPORT_MAX_ROWS: hard cap on rows read by one call
+ * - POCKETBASE_MCP_IMPORT_DIR: directory import files must be in
+ *
+ * @throws Error if a value is invalid
+ */
+export function getImportConfig(env: Record<string, string | undefined> = process.env): ImportConfig {
+  return {
+    maxRows: env.POCKETBASE_MCP_IMPORT_MAX_ROWS
+      ? parseIntEnv('POCKETBASE_MCP_IMPORT_MAX_ROWS', env.POCKETBASE_MCP_IMPORT_MAX_ROWS, 1)
+      : DEFAULT_IMPORT_MAX_ROWS,
+    importDir: env.POCKETBASE_MCP_IMPORT_DIR || null,
+  };
+}
+
+/**
+ * Get the instance profiles, loading them on first use
+ */
+export function getInstancesConfig(): InstancesConfig {
+  if (!instancesConfig) {
+    instancesConfig = loadInstancesConfig();
+  }
+  return instancesConfig;
+}
+
+/**
+ * Get the tool filter, loading it on first use
+ */
+export function getToolFilterConfig(): ToolFilterConfig {
+  if (!toolFilterConfig) {
+    toolFilterConfig = loadToolFilterConfig();
+  }
+  return toolFilterConfig;
+}
+
+/**
+ * Get the audit log settings, loading them on first use
+ */
+export function getAuditConfig(): AuditConfig {
+  if (!auditConfig) {
+    auditConfig = loadAuditConfig();
+  }
+  return auditConfig;
+}
+
+/**
+ * Clear cached configuration (useful for testing)
+ */
+export function resetConfig(): void {
+  instancesConfig = null;
+  toolFilterConfig = null;
+  auditConfig = null;
+}
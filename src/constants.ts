@@ -11,9 +11,87 @@ export const MAX_LIMIT = 500;
 /** Maximum response size in characters before truncation */
 export const MAX_RESPONSE_SIZE = 25000;
 
+/** Default upper bound on records fetched by pocketbase_list_all_records */
+export const DEFAULT_LIST_ALL_MAX_RECORDS = 10000;
+
+/** Default upper bound on rows read by one pocketbase_import_records call */
+export const DEFAULT_IMPORT_MAX_ROWS = 10000;
+
+/** Largest file pocketbase_import_records reads (bytes) */
+export const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024;
+
 /** Default output format */
 export const DEFAULT_FORMAT: 'toml' | 'json' = 'toml';
 
+/** Instance profile name used when configured from POCKETBASE_URL */
+export const DEFAULT_INSTANCE = 'default';
+
+/** Default HTTP transport listen host */
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+/** Default HTTP transport listen port */
+export const DEFAULT_HTTP_PORT = 3000;
+
+/** Default time an idle HTTP session is kept (ms) */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Default cap on concurrent HTTP sessions */
+export const DEFAULT_MAX_SESSIONS = 100;
+
+/** Streamable HTTP endpoint path */
+export const MCP_ENDPOINT = '/mcp';
+
+/** Legacy SSE stream endpoint path */
+export const SSE_ENDPOINT = '/sse';
+
+/** Legacy SSE message endpoint path */
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+
+/** Tools that modify data, hidden in read-only mode */
+export const MUTATING_TOOLS: readonly string[] = [
+  'pocketbase_create_record',
+  'pocketbase_update_record',
+  'pocketbase_upsert_record',
+  'pocketbase_delete_record',
+  'pocketbase_batch',
+  'pocketbase_update_where',
+  'pocketbase_delete_where',
+  'pocketbase_import_records',
+  'pocketbase_create_collection',
+  'pocketbase_update_collection',
+  'pocketbase_delete_collection',
+  'pocketbase_create_backup',
+  'pocketbase_restore_backup',
+  'pocketbase_delete_backup',
+];
+
+/** Default operations per batch request (PocketBase's default batch.maxRequests) */
+export const DEFAULT_BATCH_CHUNK_SIZE = 50;
+
+/** Maximum operations accepted by one pocketbase_batch call */
+export const MAX_BATCH_OPERATIONS = 1000;
+
+/** Default cap on records changed by one update/delete-by-filter call */
+export const DEFAULT_MAX_AFFECTED = 100;
+
+/** Lifetime of destructive-operation confirmation tokens (ms) */
+export const CONFIRMATION_TTL_MS = 2 * 60 * 1000;
+
+/** Default audit log size before rotation (bytes) */
+export const DEFAULT_AUDIT_MAX_SIZE = 10 * 1024 * 1024;
+
+/** Default number of rotated audit log files to keep */
+export const DEFAULT_AUDIT_MAX_FILES = 5;
+
+/** Largest serialized parameter value kept in an audit entry (bytes) */
+export const MAX_AUDIT_PARAM_SIZE = 1024;
+
+/** How long cached collection names are used for completions (ms) */
+export const COMPLETION_CACHE_TTL_MS = 60 * 1000;
+
+/** Maximum completion values returned (MCP limit) */
+export const MAX_COMPLETIONS = 100;
+
 /** Error codes for structured error responses */
 export const ErrorCodes = {
   CONNECTION_ERROR: 'CONNECTION_ERROR',
@@ -24,6 +102,7 @@ export const ErrorCodes = {
   PERMISSION_DENIED: 'PERMISSION_DENIED',
   RATE_LIMITED: 'RATE_LIMITED',
   SERVER_ERROR: 'SERVER_ERROR',
+  CONFLICT: 'CONFLICT',
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
@@ -6,46 +6,58 @@
  * for both data queries and administration operations.
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-
-// Create MCP server instance
-const server = new McpServer({
-  name: 'pocketbase-mcp-server',
-  version: '1.3.0',
-});
-
-// Export server for tool registration in other modules
-export { server };
-
-// Import and register tools
-import { registerRecordTools } from './tools/records.js';
-import { registerAuthTools } from './tools/auth.js';
-import { registerCollectionTools } from './tools/collections.js';
-import { registerAdminTools } from './tools/admin.js';
-import { registerFileTools } from './tools/files.js';
-
-// Register all tools
-registerRecordTools(server);
-registerAuthTools(server);
-registerCollectionTools(server);
-registerAdminTools(server);
-registerFileTools(server);
+import { createServer } from './server.js';
+import { getTransportConfig, getInstancesConfig, getToolFilterConfig, getAuditConfig, getListAllConfig } from './config.js';
+import { startHttpServer, closeAllSessions } from './transports/http.js';
+import { MCP_ENDPOINT, SSE_ENDPOINT } from './constants.js';
 
 /**
- * Start the MCP server with stdio transport
+ * Start the MCP server with the configured transport
  */
 async function main(): Promise<void> {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const config = getTransportConfig();
+  // Load instance profiles up front so config errors fail fast
+  const instances = getInstancesConfig();
+  getToolFilterConfig();
+  getAuditConfig();
+  getListAllConfig();
+  
+  if (config.type === 'http') {
+    const httpServer = await startHttpServer(config);
+    
+    const shutdown = async () => {
+      await closeAllSessions();
+      httpServer.close();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    
+    console.error(`PocketBase MCP Server listening on http://${config.host}:${config.port}`);
+    console.error(`Streamable HTTP endpoint: ${MCP_ENDPOINT}, SSE endpoint: ${SSE_ENDPOINT}`);
+    if (!config.authToken) {
+      console.error('WARNING: POCKETBASE_MCP_AUTH_TOKEN is not set, HTTP endpoints are unauthenticated');
+    }
+  } else {
+    const server = createServer();
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    
+    // Log to stderr so it doesn't interfere with MCP protocol on stdout
+    console.error('PocketBase MCP Server started');
+  }
   
-  // Log to stderr so it doesn't interfere with MCP protocol on stdout
-  console.error('PocketBase MCP Server started');
-  console.error(`POCKETBASE_URL: ${process.env.POCKETBASE_URL || '(not set)'}`);
+  const names = Object.keys(instances.instances);
+  if (process.env.POCKETBASE_MCP_CONFIG) {
+    console.error(`Instances: ${names.join(', ')} (default: ${instances.defaultInstance})`);
+  } else {
+    console.error(`POCKETBASE_URL: ${process.env.POCKETBASE_URL || '(not set)'}`);
+  }
 }
 
 // Run the server
 main().catch((error) => {
   console.error('Failed to start server:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
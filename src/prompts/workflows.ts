@@ -0,0 +1,271 @@
+/**
+ * Workflow Prompts - Guided PocketBase workflows with live context
+ *
+ * Each prompt pulls the relevant state from the instance (schemas, API rules,
+ * recent logs) into its message, so the agent starts from real data.
+ */
+
+import { z } from 'zod';
+import type PocketBase from 'pocketbase';
+import type { CollectionModel } from 'pocketbase';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { getClient, requireAdminAuth, toMcpError } from '../services/pocketbase.js';
+import { completeCollectionName, completeFieldNames, getServerClient, matchCompletions } from '../services/completion.js';
+import { getInstancesConfig } from '../config.js';
+import { formatToToml } from '../formatters/index.js';
+
+/** Default and maximum number of log entries pulled into the debug prompt */
+const DEFAULT_LOG_LIMIT = 20;
+const MAX_LOG_LIMIT = 100;
+
+/** PocketBase log levels (slog) */
+const LOG_LEVEL_WARN = 4;
+
+const instanceArg = completable(
+  z.string().optional().describe('Instance profile name (see pocketbase_list_instances)'),
+  value => matchCompletions(value ?? '', Object.keys(getInstancesConfig().instances))
+);
+
+const FILTER_SYNTAX = `PocketBase filter syntax:
+- Comparison: = != > >= < <=, contains: ~ !~ (wildcard % allowed)
+- "Any of" for multi-value fields (multiple select/relation/file): ?= ?!= ?> ?>= ?< ?<= ?~ ?!~
+- Combine with && and ||, group with parentheses
+- Strings in single or double quotes; also null, true, false and numbers
+- Dates as "2026-01-20 10:30:00.000Z" or macros: @now, @yesterday, @tomorrow, @todayStart, @todayEnd, @monthStart, @monthEnd, @yearStart, @yearEnd
+- Relations: author.name = "x"; back-relations: comments_via_post.id != ""
+- Modifiers: field:lower, field:length (multi-value count), field:each (every item)
+- In API rules only: @request.auth.*, @request.body.*, @request.query.*, @request.headers.*, @collection.<name>.*`;
+
+/**
+ * Summarize a collection's fields as compact, readable lines
+ */
+function describeFields(collection: CollectionModel): string {
+  return (collection.fields ?? [])
+    .map(field => {
+      const details: string[] = [field.type];
+      if (field.required) details.push('required');
+      if (field.system) details.push('system');
+      if (field.hidden) details.push('hidden');
+      if (field.type === 'select') details.push(`values: ${(field.values ?? []).join(', ')}`, `maxSelect: ${field.maxSelect ?? 1}`);
+      if (field.type === 'relation') details.push(`-> ${field.collectionId}`, `maxSelect: ${field.maxSelect ?? 1}`);
+      if (field.min) details.push(`min: ${field.min}`);
+      if (field.max) details.push(`max: ${field.max}`);
+      return `- ${field.name} (${details.join(', ')})`;
+    })
+    .join('\n');
+}
+
+/**
+ * Describe a collection's fields, falling back to the keys of a sample record
+ * when the session cannot read schemas
+ */
+async function describeCollectionFields(pb: PocketBase, name: string): Promise<string> {
+  if (pb.authStore.isSuperuser) {
+    const collection = await pb.collections.getOne(name);
+    return `Fields of "${name}" (${collection.type} collection):\n${describeFields(collection)}`;
+  }
+
+  try {
+    const sample = await pb.collection(name).getList(1, 1);
+    const keys = sample.items[0] ? Object.keys(sample.items[0]).filter(k => k !== 'collectionId' && k !== 'collectionName') : [];
+    return keys.length > 0
+      ? `Fields seen on a "${name}" record (schema not available without admin authentication):\n${keys.map(k => `- ${k}`).join('\n')}`
+      : `No readable records in "${name}" and the schema is not available without admin authentication.`;
+  } catch {
+    return `The schema of "${name}" is not available (admin authentication required).`;
+  }
+}
+
+/**
+ * Build a prompt result with a single user message
+ */
+function userMessage(description: string, text: string) {
+  return {
+    description,
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+  };
+}
+
+/**
+ * Register all workflow prompts with the MCP server
+ */
+export function registerWorkflowPrompts(server: McpServer): void {
+  // Design Collection Schema Prompt
+  server.prompt(
+    'design_collection_schema',
+    'Design a PocketBase collection schema for a feature, taking the existing collections into account',
+    {
+      requirements: z.string().describe('What the collection should store and how it will be used'),
+      instance: instanceArg,
+    },
+    async (args, extra) => {
+      try {
+        const pb = getClient(extra.sessionId, args.instance);
+
+        let existing = 'Existing collections are not available (admin authentication required).';
+        if (pb.authStore.isSuperuser) {
+          const collections = await pb.collections.getFullList({ sort: 'name' });
+          existing = 'Existing collections (id, name, type, fields):\n' + collections
+            .map(col => `- ${col.id} ${col.name} (${col.type}): ${(col.fields ?? []).map(f => `${f.name}:${f.type}`).join(', ')}`)
+            .join('\n');
+        }
+
+        return userMessage('Design a collection schema', `Design a PocketBase collection for the following requirements:
+
+${args.requirements}
+
+${existing}
+
+Guidelines:
+- Field types: text, number, bool, email, url, editor, date, autodate, select, file, relation, json, geoPoint, password
+- Reuse existing collections through relation fields (collectionId, maxSelect, cascadeDelete) instead of duplicating data
+- Add autodate fields "created" (onCreate) and "updated" (onCreate + onUpdate) to base collections
+- Use select fields with fixed values for enumerations; maxSelect > 1 for multiple choices
+- Add indexes for fields used in filters, sorts and uniqueness constraints
+- Start from locked API rules (null = superusers only) and open only what clients need
+
+Reply with the proposed fields, API rules and indexes, then call pocketbase_create_collection with dryRun=true to check the definition before creating it.`);
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    }
+  );
+
+  // Write Filter Prompt
+  server.prompt(
+    'write_filter',
+    'Write a PocketBase filter expression for a collection',
+    {
+      collection: completable(
+        z.string().describe('Collection to filter'),
+        (value, context) => completeCollectionName(getServerClient(server, context?.arguments?.instance), value)
+      ),
+      goal: z.string().describe('Which records the filter should match, in plain language'),
+      fields: completable(
+        z.string().optional().describe('Fields the filter should use (comma-separated)'),
+        (value, context) => completeFieldNames(
+          getServerClient(server, context?.arguments?.instance),
+          context?.arguments?.collection,
+          value ?? ''
+        )
+      ),
+      instance: instanceArg,
+    },
+    async (args, extra) => {
+      try {
+        const pb = getClient(extra.sessionId, args.instance);
+        const fields = await describeCollectionFields(pb, args.collection);
+
+        const focus = args.fields ? `\nUse these fields: ${args.fields}\n` : '';
+
+        return userMessage(`Write a filter for ${args.collection}`, `Write a PocketBase filter for the "${args.collection}" collection that matches: ${args.goal}
+${focus}
+${fields}
+
+${FILTER_SYNTAX}
+
+Reply with the filter expression and a short explanation, then verify it with pocketbase_list_records (collection="${args.collection}", filter=..., perPage=5).`);
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    }
+  );
+
+  // Audit API Rules Prompt
+  server.prompt(
+    'audit_api_rules',
+    'Review the API rules of a collection for security problems',
+    {
+      collection: completable(
+        z.string().describe('Collection to audit'),
+        (value, context) => completeCollectionName(getServerClient(server, context?.arguments?.instance), value)
+      ),
+      instance: instanceArg,
+    },
+    async (args, extra) => {
+      try {
+        requireAdminAuth(extra.sessionId, args.instance);
+        const pb = getClient(extra.sessionId, args.instance);
+
+        const collection = await pb.collections.getOne(args.collection);
+        const rules: Record<string, string | null | undefined> = {
+          listRule: collection.listRule,
+          viewRule: collection.viewRule,
+          createRule: collection.createRule,
+          updateRule: collection.updateRule,
+          deleteRule: collection.deleteRule,
+        };
+        if (collection.type === 'auth') {
+          rules.authRule = collection.authRule;
+          rules.manageRule = collection.manageRule;
+        }
+
+        const ruleLines = Object.entries(rules)
+          .map(([name, rule]) => `- ${name}: ${rule === null || rule === undefined ? 'null (superusers only)' : rule === '' ? '"" (anyone, including guests)' : rule}`)
+          .join('\n');
+
+        return userMessage(`Audit API rules of ${collection.name}`, `Audit the API rules of the ${collection.type} collection "${collection.name}".
+
+Rules:
+${ruleLines}
+
+Fields:
+${describeFields(collection)}
+
+Check for:
+- Public ("") list/view rules that expose private or personal data
+- Create/update rules that let clients set ownership or privileged fields (guard with @request.body.<field>:isset = false)
+- Update/delete rules that do not restrict access to the record owner or an admin role
+- Rules that reference fields which do not exist or are hidden
+- Expensive @collection joins or back-relations in list rules
+${collection.type === 'auth' ? '- Auth collection: manageRule scope, authRule conditions (e.g. verified = true), email visibility\n' : ''}
+Report each problem with its severity and a corrected rule. Apply fixes with pocketbase_update_collection (dryRun=true first).`);
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    }
+  );
+
+  // Debug Recent Errors Prompt
+  server.prompt(
+    'debug_recent_errors',
+    'Investigate recent warnings and errors from the server logs',
+    {
+      limit: z.string().optional().describe(`Number of log entries to include (default ${DEFAULT_LOG_LIMIT}, max ${MAX_LOG_LIMIT})`),
+      filter: z.string().optional().describe('Additional log filter (e.g., "data.url ~ \'/api/collections/posts\'")'),
+      instance: instanceArg,
+    },
+    async (args, extra) => {
+      try {
+        requireAdminAuth(extra.sessionId, args.instance);
+        const pb = getClient(extra.sessionId, args.instance);
+
+        const parsed = Number(args.limit);
+        const limit = Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, MAX_LOG_LIMIT) : DEFAULT_LOG_LIMIT;
+        const filter = args.filter ? `level >= ${LOG_LEVEL_WARN} && (${args.filter})` : `level >= ${LOG_LEVEL_WARN}`;
+
+        const result = await pb.logs.getList(1, limit, { filter, sort: '-created' });
+        const logs = result.items.map(log => ({
+          id: log.id,
+          created: log.created,
+          level: log.level,
+          message: log.message,
+          data: log.data,
+        }));
+
+        const context = logs.length > 0
+          ? `Most recent ${logs.length} of ${result.totalItems} matching log entries:\n\n${formatToToml({ logs })}`
+          : 'No warnings or errors matched. Widen the filter or check that request logging is enabled.';
+
+        return userMessage('Debug recent errors', `Investigate the recent warnings and errors of this PocketBase instance (filter: ${filter}).
+
+${context}
+
+Group the entries by likely cause (status code, URL, error message), explain each cause, and suggest fixes: API rule changes, schema changes, or client-side request fixes. Use pocketbase_get_log for full details of an entry and pocketbase_get_collection to check the schemas involved.`);
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    }
+  );
+}
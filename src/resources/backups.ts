@@ -0,0 +1,79 @@
+/**
+ * Backup Resources - Backup file metadata as MCP resources
+ *
+ * Resources are read with the session's client for the default instance.
+ */
+
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { createErrorResponse, getClient, requireAdminAuth, toMcpError } from '../services/pocketbase.js';
+import { completeBackupKey, getServerClient } from '../services/completion.js';
+import { formatToJson } from '../formatters/index.js';
+import { ErrorCodes } from '../constants.js';
+
+/**
+ * Build the URI of a backup resource
+ */
+export function backupUri(key: string): string {
+  return `pocketbase://backups/${encodeURIComponent(key)}`;
+}
+
+/**
+ * Register all backup resources with the MCP server
+ */
+export function registerBackupResources(server: McpServer): void {
+  // Backup Resource
+  server.resource(
+    'backup',
+    new ResourceTemplate('pocketbase://backups/{key}', {
+      list: async (extra) => {
+        // Listing must not fail the whole resources/list request
+        try {
+          const pb = getClient(extra.sessionId);
+          if (!pb.authStore.isSuperuser) {
+            return { resources: [] };
+          }
+
+          const backups = await pb.backups.getFullList();
+
+          return {
+            resources: backups.map(backup => ({
+              uri: backupUri(backup.key),
+              name: backup.key,
+              description: `Backup modified ${backup.modified}`,
+              mimeType: 'application/json',
+            })),
+          };
+        } catch {
+          return { resources: [] };
+        }
+      },
+      complete: {
+        key: value => completeBackupKey(getServerClient(server), value),
+      },
+    }),
+    {
+      description: 'Backup file metadata on the default instance: key, size and modification time (requires admin authentication)',
+      mimeType: 'application/json',
+    },
+    async (uri, variables, extra) => {
+      try {
+        requireAdminAuth(extra.sessionId);
+        const pb = getClient(extra.sessionId);
+
+        const key = decodeURIComponent(String(variables.key));
+        const backup = (await pb.backups.getFullList()).find(b => b.key === key);
+        if (!backup) {
+          throw createErrorResponse(ErrorCodes.NOT_FOUND, `Backup "${key}" not found`);
+        }
+
+        const output = { key: backup.key, size: backup.size, modified: backup.modified };
+
+        return {
+          contents: [{ uri: uri.href, mimeType: 'application/json', text: formatToJson(output) }],
+        };
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    }
+  );
+}
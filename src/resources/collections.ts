@@ -0,0 +1,150 @@
+/**
+ * Collection Resources - Collection list and schemas as MCP resources
+ *
+ * Resources are read with the session's client for the default instance;
+ * other instance profiles are only reachable through the tools.
+ */
+
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getClient, requireAdminAuth, toMcpError } from '../services/pocketbase.js';
+import { completeCollectionName, getServerClient, invalidateCollectionCache } from '../services/completion.js';
+import { formatToJson } from '../formatters/index.js';
+
+/** URI of the collection list resource */
+export const COLLECTIONS_URI = 'pocketbase://collections';
+
+/**
+ * Build the URI of a collection's schema resource
+ */
+export function collectionSchemaUri(name: string): string {
+  return `${COLLECTIONS_URI}/${encodeURIComponent(name)}/schema`;
+}
+
+/** Servers with collection resources, one per session, until their connection closes */
+const resourceServers = new Set<McpServer>();
+
+/**
+ * Tell every connected client that the collection resources changed and drop
+ * cached collection names (call after creating, updating or deleting a collection)
+ * @param server - Server whose tool made the change (notified even if never registered)
+ */
+export function notifyCollectionsChanged(server: McpServer): void {
+  invalidateCollectionCache();
+  for (const target of new Set([server, ...resourceServers])) {
+    if (target.isConnected()) {
+      target.sendResourceListChanged();
+    }
+  }
+}
+
+/**
+ * Register all collection resources with the MCP server
+ */
+export function registerCollectionResources(server: McpServer): void {
+  resourceServers.add(server);
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    resourceServers.delete(server);
+    onclose?.();
+  };
+
+  // Collection List Resource
+  server.resource(
+    'collections',
+    COLLECTIONS_URI,
+    {
+      description: 'All collections of the default instance with their type and field names (requires admin authentication)',
+      mimeType: 'application/json',
+    },
+    async (uri, extra) => {
+      try {
+        requireAdminAuth(extra.sessionId);
+        const pb = getClient(extra.sessionId);
+
+        const collections = await pb.collections.getFullList({ sort: 'name' });
+
+        const output = collections.map(col => ({
+          id: col.id,
+          name: col.name,
+          type: col.type,
+          system: col.system,
+          fields: (col.fields ?? []).map(f => f.name),
+          schemaUri: collectionSchemaUri(col.name),
+        }));
+
+        return {
+          contents: [{ uri: uri.href, mimeType: 'application/json', text: formatToJson(output) }],
+        };
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    }
+  );
+
+  // Collection Schema Resource
+  server.resource(
+    'collection-schema',
+    new ResourceTemplate(`${COLLECTIONS_URI}/{name}/schema`, {
+      list: async (extra) => {
+        // Listing must not fail the whole resources/list request
+        try {
+          const pb = getClient(extra.sessionId);
+          if (!pb.authStore.isSuperuser) {
+            return { resources: [] };
+          }
+
+          const collections = await pb.collections.getFullList({ sort: 'name', fields: 'name,type' });
+
+          return {
+            resources: collections.map(col => ({
+              uri: collectionSchemaUri(col.name),
+              name: `${col.name} schema`,
+              description: `Schema of the ${col.type} collection "${col.name}"`,
+              mimeType: 'application/json',
+            })),
+          };
+        } catch {
+          return { resources: [] };
+        }
+      },
+      complete: {
+        name: value => completeCollectionName(getServerClient(server), value),
+      },
+    }),
+    {
+      description: 'Full collection schema on the default instance: fields, API rules and indexes (requires admin authentication)',
+      mimeType: 'application/json',
+    },
+    async (uri, variables, extra) => {
+      try {
+        requireAdminAuth(extra.sessionId);
+        const pb = getClient(extra.sessionId);
+
+        const collection = await pb.collections.getOne(decodeURIComponent(String(variables.name)));
+
+        const output = {
+          id: collection.id,
+          name: collection.name,
+          type: collection.type,
+          system: collection.system,
+          fields: collection.fields ?? [],
+          rules: {
+            listRule: collection.listRule,
+            viewRule: collection.viewRule,
+            createRule: collection.createRule,
+            updateRule: collection.updateRule,
+            deleteRule: collection.deleteRule,
+          },
+          indexes: collection.indexes ?? [],
+          ...(collection.type === 'view' && { viewQuery: collection.viewQuery }),
+        };
+
+        return {
+          contents: [{ uri: uri.href, mimeType: 'application/json', text: formatToJson(output) }],
+        };
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    }
+  );
+}
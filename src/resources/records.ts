@@ -0,0 +1,55 @@
+/**
+ * Record Resources - Individual records as MCP resources
+ *
+ * Resources are read with the session's client for the default instance,
+ * so the collection's view rule applies as usual. Other instance profiles
+ * are only reachable through the tools.
+ */
+
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getClient, toMcpError } from '../services/pocketbase.js';
+import { completeCollectionName, completeRecordId, getServerClient } from '../services/completion.js';
+import { formatToJson } from '../formatters/index.js';
+
+/**
+ * Build the URI of a record resource
+ */
+export function recordUri(collection: string, id: string): string {
+  return `pocketbase://records/${encodeURIComponent(collection)}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Register all record resources with the MCP server
+ */
+export function registerRecordResources(server: McpServer): void {
+  // Record Resource (not listed: collections can hold any number of records)
+  server.resource(
+    'record',
+    new ResourceTemplate('pocketbase://records/{collection}/{id}', {
+      list: undefined,
+      complete: {
+        collection: value => completeCollectionName(getServerClient(server), value),
+        id: (value, context) => completeRecordId(getServerClient(server), context?.arguments?.collection, value),
+      },
+    }),
+    {
+      description: 'A single record of the default instance by collection name and ID',
+      mimeType: 'application/json',
+    },
+    async (uri, variables, extra) => {
+      try {
+        const pb = getClient(extra.sessionId);
+
+        const record = await pb
+          .collection(decodeURIComponent(String(variables.collection)))
+          .getOne(decodeURIComponent(String(variables.id)));
+
+        return {
+          contents: [{ uri: uri.href, mimeType: 'application/json', text: formatToJson(record) }],
+        };
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    }
+  );
+}
@@ -3,10 +3,7 @@
  */
 
 import { z } from 'zod';
-
-/** Common output format parameter */
-const formatParam = z.enum(['toml', 'json']).default('toml')
-  .describe('Output format: toml (default, compact) or json');
+import { formatParam, instanceParam } from './common.js';
 
 /**
  * Input schema for admin authentication
@@ -16,6 +13,7 @@ export const AuthAdminInputSchema = z.object({
     .describe('Admin/superuser email address'),
   password: z.string().min(1, 'Password required')
     .describe('Admin password'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
@@ -33,6 +31,7 @@ export const AuthUserInputSchema = z.object({
     .describe('User password'),
   identityField: z.string().optional()
     .describe('Specific identity field to use (e.g., "email", "username"). If not set, uses first matching field.'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
@@ -42,6 +41,7 @@ export type AuthUserInput = z.infer<typeof AuthUserInputSchema>;
  * Input schema for getting auth status
  */
 export const GetAuthStatusInputSchema = z.object({
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
@@ -51,6 +51,7 @@ export type GetAuthStatusInput = z.infer<typeof GetAuthStatusInputSchema>;
  * Input schema for logout
  */
 export const LogoutInputSchema = z.object({
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
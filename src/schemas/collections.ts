@@ -4,10 +4,8 @@
 
 import { z } from 'zod';
 import { DEFAULT_LIMIT, MAX_LIMIT } from '../constants.js';
-
-/** Common output format parameter */
-const formatParam = z.enum(['toml', 'json']).default('toml')
-  .describe('Output format: toml (default, compact) or json');
+import { whereParam } from './where.js';
+import { formatParam, instanceParam } from './common.js';
 
 /** Field type enum */
 const fieldTypeEnum = z.enum([
@@ -33,6 +31,8 @@ export const ListCollectionsInputSchema = z.object({
     .describe('Items per page'),
   filter: z.string().optional()
     .describe('Filter expression (e.g., type="base")'),
+  where: whereParam,
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
@@ -44,6 +44,7 @@ export type ListCollectionsInput = z.infer<typeof ListCollectionsInputSchema>;
 export const GetCollectionInputSchema = z.object({
   name: z.string().min(1, 'Collection name required')
     .describe('Collection name or ID'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
@@ -75,6 +76,9 @@ export const CreateCollectionInputSchema = z.object({
     .describe('Delete API rule'),
   indexes: z.array(z.string()).optional()
     .describe('Index definitions'),
+  dryRun: z.boolean().optional()
+    .describe('Validate and report what would be sent to PocketBase without sending it'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
@@ -96,6 +100,9 @@ export const UpdateCollectionInputSchema = z.object({
   updateRule: z.string().nullable().optional(),
   deleteRule: z.string().nullable().optional(),
   indexes: z.array(z.string()).optional(),
+  dryRun: z.boolean().optional()
+    .describe('Validate and report what would be sent to PocketBase without sending it'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
@@ -107,6 +114,11 @@ export type UpdateCollectionInput = z.infer<typeof UpdateCollectionInputSchema>;
 export const DeleteCollectionInputSchema = z.object({
   name: z.string().min(1)
     .describe('Collection name to delete'),
+  confirmToken: z.string().optional()
+    .describe('Confirmation token from a previous preview call. Omit to get an impact preview and a token.'),
+  dryRun: z.boolean().optional()
+    .describe('Validate and report what would be sent to PocketBase without sending it'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
@@ -0,0 +1,13 @@
+/**
+ * Shared Zod Schemas
+ */
+
+import { z } from 'zod';
+
+/** Common output format parameter */
+export const formatParam = z.enum(['toml', 'json']).default('toml')
+  .describe('Output format: toml (default, compact) or json');
+
+/** Common instance profile parameter */
+export const instanceParam = z.string().optional()
+  .describe('PocketBase instance profile name (default: the configured default instance)');
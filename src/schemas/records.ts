@@ -3,11 +3,9 @@
  */
 
 import { z } from 'zod';
-import { DEFAULT_LIMIT, MAX_LIMIT } from '../constants.js';
-
-/** Common output format parameter */
-const formatParam = z.enum(['toml', 'json']).default('toml')
-  .describe('Output format: toml (default, compact) or json');
+import { DEFAULT_LIMIT, DEFAULT_MAX_AFFECTED, MAX_BATCH_OPERATIONS, MAX_LIMIT } from '../constants.js';
+import { whereParam } from './where.js';
+import { formatParam, instanceParam } from './common.js';
 
 /** Common pagination parameters */
 const paginationParams = {
@@ -39,11 +37,34 @@ export const ListRecordsInputSchema = z.object({
   ...queryParams,
   skipTotal: z.boolean().optional()
     .describe('Skip total count query for better performance (totalItems/totalPages will be -1)'),
+  where: whereParam,
+  cursor: z.string().min(1).optional()
+    .describe('nextCursor from a previous response, to fetch the page after it (repeat the same sort and filter; page is ignored)'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
 export type ListRecordsInput = z.infer<typeof ListRecordsInputSchema>;
 
+/**
+ * Input schema for listing all records across pages
+ */
+export const ListAllRecordsInputSchema = z.object({
+  collection: z.string().min(1, 'Collection name required')
+    .describe('Collection name to query'),
+  ...queryParams,
+  maxRecords: z.number().int().min(1).optional()
+    .describe('Stop after this many records (capped by the server limit, 10000 unless POCKETBASE_MCP_LIST_ALL_MAX is set)'),
+  pageSize: z.number().int().min(1).max(MAX_LIMIT).default(MAX_LIMIT)
+    .describe(`Records fetched per request (max ${MAX_LIMIT})`),
+  overflow: z.enum(['summary', 'file']).default('summary')
+    .describe('When the result is too large for a response: "summary" returns the first records that fit, "file" writes all records to a JSON file on the server and returns its path'),
+  instance: instanceParam,
+  format: formatParam,
+}).strict();
+
+export type ListAllRecordsInput = z.infer<typeof ListAllRecordsInputSchema>;
+
 /**
  * Input schema for getting a single record
  */
@@ -56,11 +77,46 @@ export const GetRecordInputSchema = z.object({
     .describe('Comma-separated fields to return'),
   expand: z.string().optional()
     .describe('Relations to expand'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
 export type GetRecordInput = z.infer<typeof GetRecordInputSchema>;
 
+/**
+ * Input schema for finding the first record matching a filter
+ */
+export const FindFirstRecordInputSchema = z.object({
+  collection: z.string().min(1, 'Collection name required')
+    .describe('Collection name'),
+  filter: z.string().min(1, 'Filter required')
+    .describe('PocketBase filter expression (e.g., email="jane@example.com")'),
+  sort: z.string().optional()
+    .describe('Sort field(s) deciding which match comes first (e.g., -created)'),
+  fields: z.string().optional()
+    .describe('Comma-separated fields to return'),
+  expand: z.string().optional()
+    .describe('Relations to expand'),
+  instance: instanceParam,
+  format: formatParam,
+}).strict();
+
+export type FindFirstRecordInput = z.infer<typeof FindFirstRecordInputSchema>;
+
+/**
+ * Input schema for checking whether a record matching a filter exists
+ */
+export const RecordExistsInputSchema = z.object({
+  collection: z.string().min(1, 'Collection name required')
+    .describe('Collection name'),
+  filter: z.string().min(1, 'Filter required')
+    .describe('PocketBase filter expression (e.g., email="jane@example.com")'),
+  instance: instanceParam,
+  format: formatParam,
+}).strict();
+
+export type RecordExistsInput = z.infer<typeof RecordExistsInputSchema>;
+
 /**
  * Input schema for creating a record
  */
@@ -69,15 +125,34 @@ export const CreateRecordInputSchema = z.object({
     .describe('Collection name'),
   data: z.record(z.unknown())
     .describe('Record data as key-value pairs'),
+  dryRun: z.boolean().optional()
+    .describe('Validate and report what would be sent to PocketBase without sending it'),
   expand: z.string().optional()
     .describe('Relations to expand in the response'),
   fields: z.string().optional()
     .describe('Comma-separated fields to return in the response'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
 export type CreateRecordInput = z.infer<typeof CreateRecordInputSchema>;
 
+/**
+ * Single JSON Patch (RFC 6902) operation
+ */
+export const JsonPatchOperationSchema = z.object({
+  op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test'])
+    .describe('Patch operation'),
+  path: z.string()
+    .describe('JSON Pointer to the target (e.g., "/theme", "/items/0", "/items/-" to append)'),
+  from: z.string().optional()
+    .describe('Source JSON Pointer for move and copy'),
+  value: z.unknown().optional()
+    .describe('Value for add, replace and test'),
+}).strict();
+
+export type JsonPatchOperation = z.infer<typeof JsonPatchOperationSchema>;
+
 /**
  * Input schema for updating a record
  */
@@ -86,17 +161,50 @@ export const UpdateRecordInputSchema = z.object({
     .describe('Collection name'),
   id: z.string().min(1, 'Record ID required')
     .describe('Record ID to update'),
-  data: z.record(z.unknown())
-    .describe('Fields to update (partial update)'),
+  data: z.record(z.unknown()).default({})
+    .describe('Fields to update (partial update); "field+" / "+field" append/prepend and "field-" removes values of relation, select, file and number fields'),
+  jsonPatch: z.record(z.array(JsonPatchOperationSchema).min(1)).optional()
+    .describe('JSON Patch (RFC 6902) operations keyed by json field name, applied to the current value'),
+  ifUnmodifiedSince: z.string().min(1).optional()
+    .describe('The record\'s "updated" value when you read it; the update fails with CONFLICT if the record changed since'),
+  expected: z.record(z.unknown()).optional()
+    .describe('Field values the record must still have (e.g., {"status": "draft"}); the update fails with CONFLICT otherwise'),
+  dryRun: z.boolean().optional()
+    .describe('Validate and report what would be sent to PocketBase without sending it'),
   expand: z.string().optional()
     .describe('Relations to expand in the response'),
   fields: z.string().optional()
     .describe('Comma-separated fields to return in the response'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
 export type UpdateRecordInput = z.infer<typeof UpdateRecordInputSchema>;
 
+/**
+ * Input schema for upserting a record
+ */
+export const UpsertRecordInputSchema = z.object({
+  collection: z.string().min(1, 'Collection name required')
+    .describe('Collection name'),
+  matchOn: z.array(z.string().min(1)).min(1).optional()
+    .describe('Fields whose values in data identify the record (e.g., ["email"] or ["source", "externalId"])'),
+  id: z.string().min(1).optional()
+    .describe('Record ID to match instead of matchOn (also used as the ID when creating)'),
+  data: z.record(z.unknown())
+    .describe('Record data: full record when created, fields to update when matched'),
+  dryRun: z.boolean().optional()
+    .describe('Validate and report what would be sent to PocketBase without sending it'),
+  expand: z.string().optional()
+    .describe('Relations to expand in the response'),
+  fields: z.string().optional()
+    .describe('Comma-separated fields to return in the response'),
+  instance: instanceParam,
+  format: formatParam,
+}).strict();
+
+export type UpsertRecordInput = z.infer<typeof UpsertRecordInputSchema>;
+
 /**
  * Input schema for deleting a record
  */
@@ -105,7 +213,102 @@ export const DeleteRecordInputSchema = z.object({
     .describe('Collection name'),
   id: z.string().min(1, 'Record ID required')
     .describe('Record ID to delete'),
+  confirmToken: z.string().optional()
+    .describe('Confirmation token from a previous preview call. Omit to get an impact preview and a token.'),
+  dryRun: z.boolean().optional()
+    .describe('Validate and report what would be sent to PocketBase without sending it'),
+  instance: instanceParam,
   format: formatParam,
 }).strict();
 
 export type DeleteRecordInput = z.infer<typeof DeleteRecordInputSchema>;
+
+/** Collection name of a batch operation */
+const batchCollectionParam = z.string().min(1, 'Collection name required')
+  .describe('Collection name');
+
+/**
+ * Single operation of a batch
+ */
+export const BatchOperationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('create'),
+    collection: batchCollectionParam,
+    data: z.record(z.unknown()).describe('Record data'),
+  }).strict(),
+  z.object({
+    action: z.literal('update'),
+    collection: batchCollectionParam,
+    id: z.string().min(1, 'Record ID required').describe('Record ID to update'),
+    data: z.record(z.unknown()).describe('Fields to update (partial update)'),
+  }).strict(),
+  z.object({
+    action: z.literal('upsert'),
+    collection: batchCollectionParam,
+    data: z.record(z.unknown()).describe('Record data; updates the record with data.id when it exists, creates otherwise'),
+  }).strict(),
+  z.object({
+    action: z.literal('delete'),
+    collection: batchCollectionParam,
+    id: z.string().min(1, 'Record ID required').describe('Record ID to delete'),
+  }).strict(),
+]);
+
+export type BatchOperation = z.infer<typeof BatchOperationSchema>;
+
+/**
+ * Input schema for batch record operations
+ */
+export const BatchInputSchema = z.object({
+  operations: z.array(BatchOperationSchema).min(1, 'At least one operation required').max(MAX_BATCH_OPERATIONS)
+    .describe(`Operations to run in order (max ${MAX_BATCH_OPERATIONS})`),
+  chunkSize: z.number().int().min(1).max(MAX_BATCH_OPERATIONS).optional()
+    .describe('Operations per transactional batch request (default: the server\'s batch.maxRequests when readable, otherwise 50)'),
+  confirmToken: z.string().optional()
+    .describe('Confirmation token from a previous preview call. Required when the batch contains delete operations.'),
+  dryRun: z.boolean().optional()
+    .describe('Validate and report what would be sent to PocketBase without sending it'),
+  instance: instanceParam,
+  format: formatParam,
+}).strict();
+
+export type BatchInput = z.infer<typeof BatchInputSchema>;
+
+/** Common parameters of update/delete by filter */
+const bulkParams = {
+  collection: z.string().min(1, 'Collection name required')
+    .describe('Collection name'),
+  filter: z.string().optional()
+    .describe('PocketBase filter expression selecting the records (filter or where is required)'),
+  where: whereParam,
+  maxAffected: z.number().int().min(1).max(MAX_BATCH_OPERATIONS).default(DEFAULT_MAX_AFFECTED)
+    .describe(`Refuse to run if more records match (default ${DEFAULT_MAX_AFFECTED}, max ${MAX_BATCH_OPERATIONS})`),
+  sampleSize: z.number().int().min(0).max(50).default(5)
+    .describe('Matched records shown in the preview'),
+  chunkSize: z.number().int().min(1).max(MAX_BATCH_OPERATIONS).optional()
+    .describe('Records per transactional batch request (default: the server\'s batch.maxRequests when readable, otherwise 50)'),
+  confirmToken: z.string().optional()
+    .describe('Confirmation token from a previous preview call. Omit to get the matched count, a sample and a token.'),
+  dryRun: z.boolean().optional()
+    .describe('Report the matched count and sample without issuing a token or changing anything'),
+  instance: instanceParam,
+  format: formatParam,
+};
+
+/**
+ * Input schema for updating all records matching a filter
+ */
+export const UpdateWhereInputSchema = z.object({
+  ...bulkParams,
+  data: z.record(z.unknown())
+    .describe('Fields to set on every matched record (partial update)'),
+}).strict();
+
+export type UpdateWhereInput = z.infer<typeof UpdateWhereInputSchema>;
+
+/**
+ * Input schema for deleting all records matching a filter
+ */
+export const DeleteWhereInputSchema = z.object(bulkParams).strict();
+
+export type DeleteWhereInput = z.infer<typeof DeleteWhereInputSchema>;
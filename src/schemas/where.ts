@@ -0,0 +1,42 @@
+/**
+ * Structured Filter Zod Schemas
+ */
+
+import { z } from 'zod';
+
+/** Comparison operators accepted in a where condition */
+export const WHERE_OPERATORS = [
+  '=', '!=', '>', '>=', '<', '<=', '~', '!~',
+  '?=', '?!=', '?>', '?>=', '?<', '?<=', '?~', '?!~',
+] as const;
+
+/** A single comparison */
+export interface WhereCondition {
+  field: string;
+  op: (typeof WHERE_OPERATORS)[number];
+  value: string | number | boolean | null;
+}
+
+/** A condition or an and/or group of clauses */
+export type WhereClause = WhereCondition | { and: WhereClause[] } | { or: WhereClause[] };
+
+const whereConditionSchema = z.object({
+  field: z.string().regex(/^@?[A-Za-z_]\w*(?:[.:]\w+)*$/, 'Must be a field path (e.g., status, author.name, tags:length)')
+    .describe('Field path, optionally with a modifier (e.g., status, author.name, tags:length)'),
+  op: z.enum(WHERE_OPERATORS).describe('Comparison operator'),
+  value: z.union([z.string(), z.number(), z.boolean(), z.null()])
+    .describe('Value to compare with (escaped automatically)'),
+}).strict();
+
+/**
+ * Structured filter: a condition, {and: [...]} or {or: [...]}
+ */
+export const WhereSchema: z.ZodType<WhereClause> = z.lazy(() => z.union([
+  whereConditionSchema,
+  z.object({ and: z.array(WhereSchema).min(1) }).strict(),
+  z.object({ or: z.array(WhereSchema).min(1) }).strict(),
+]));
+
+/** Shared `where` parameter */
+export const whereParam = WhereSchema.optional()
+  .describe('Structured filter instead of (or combined with) filter, e.g. {"and": [{"field": "status", "op": "=", "value": "open"}, {"field": "total", "op": ">", "value": 100}]}. Values are escaped automatically.');
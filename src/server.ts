@@ -0,0 +1,60 @@
+/**
+ * MCP Server Factory
+ * 
+ * Builds a fully registered McpServer. The stdio transport uses a single
+ * instance, while the HTTP transport creates one per client session.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerRecordTools } from './tools/records.js';
+import { registerAuthTools } from './tools/auth.js';
+import { registerCollectionTools } from './tools/collections.js';
+import { registerAdminTools } from './tools/admin.js';
+import { registerFileTools } from './tools/files.js';
+import { registerInstanceTools } from './tools/instances.js';
+import { registerAuditTools } from './tools/audit.js';
+import { registerAnalyticsTools } from './tools/analytics.js';
+import { registerImportTools } from './tools/import.js';
+import { registerCollectionResources } from './resources/collections.js';
+import { registerRecordResources } from './resources/records.js';
+import { registerBackupResources } from './resources/backups.js';
+import { registerWorkflowPrompts } from './prompts/workflows.js';
+import { filterTools } from './services/registry.js';
+import { auditTools } from './services/audit.js';
+
+/** Server name reported to MCP clients */
+export const SERVER_NAME = 'pocketbase-mcp-server';
+
+/** Server version reported to MCP clients */
+export const SERVER_VERSION = '1.3.0';
+
+/**
+ * Create a new MCP server instance with all enabled tools, resources and prompts registered
+ */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+  
+  filterTools(server);
+  auditTools(server);
+  
+  registerRecordTools(server);
+  registerAuthTools(server);
+  registerCollectionTools(server);
+  registerAdminTools(server);
+  registerFileTools(server);
+  registerInstanceTools(server);
+  registerAuditTools(server);
+  registerAnalyticsTools(server);
+  registerImportTools(server);
+  
+  registerCollectionResources(server);
+  registerRecordResources(server);
+  registerBackupResources(server);
+  
+  registerWorkflowPrompts(server);
+  
+  return server;
+}
@@ -0,0 +1,196 @@
+/**
+ * Aggregate Service - count/sum/avg/min/max over streamed record pages
+ *
+ * PocketBase has no aggregate endpoint, so records are folded into per-group
+ * accumulators page by page; only the accumulators are kept in memory.
+ */
+
+import { createErrorResponse } from './pocketbase.js';
+import { ErrorCodes } from '../constants.js';
+
+/** Supported aggregate functions */
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/** A parsed aggregate expression */
+export interface AggregateSpec {
+  fn: AggregateFunction;
+  /** Field to aggregate (absent for count(*)) */
+  field?: string;
+  /** Output column name */
+  alias: string;
+}
+
+/** Running state of one aggregate within a group */
+interface Accumulator {
+  count: number;
+  sum: number;
+  min?: unknown;
+  max?: unknown;
+}
+
+/** Running state of one group */
+interface GroupState {
+  values: Record<string, unknown>;
+  accumulators: Accumulator[];
+}
+
+/** Groups keyed by their serialized group-by values */
+export type AggregateGroups = Map<string, GroupState>;
+
+const EXPRESSION_PATTERN = /^(count|sum|avg|min|max)\s*(?:\(\s*(\*|[A-Za-z_]\w*)?\s*\))?(?:\s+as\s+([A-Za-z_]\w*))?$/i;
+
+/**
+ * Parse expressions like `count`, `sum(total)` or `avg(total) as avgTotal`
+ * @throws ErrorResponse listing every invalid expression
+ */
+export function parseAggregates(expressions: string[]): AggregateSpec[] {
+  const specs: AggregateSpec[] = [];
+  const fieldErrors: Record<string, string> = {};
+
+  expressions.forEach((expression, i) => {
+    const match = EXPRESSION_PATTERN.exec(expression.trim());
+    const fn = match?.[1].toLowerCase() as AggregateFunction | undefined;
+    const field = match?.[2] === '*' ? undefined : match?.[2];
+    if (!match || !fn || (fn !== 'count' && !field)) {
+      fieldErrors[`aggregates[${i}]`] = `Invalid aggregate "${expression}"`;
+      return;
+    }
+    specs.push({ fn, field, alias: match[3] ?? (field ? `${fn}_${field}` : fn) });
+  });
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      'Invalid aggregate expressions',
+      'Use count, count(field), sum(field), avg(field), min(field) or max(field), optionally followed by "as name"',
+      fieldErrors
+    );
+  }
+  return specs;
+}
+
+/**
+ * Fields to request so every aggregate and group can be computed
+ */
+export function aggregateFields(specs: AggregateSpec[], groupBy: string[]): string {
+  const fields = new Set([...groupBy, ...specs.flatMap(s => (s.field ? [s.field] : []))]);
+  return fields.size > 0 ? [...fields].join(',') : 'id';
+}
+
+/**
+ * Whether a value counts as present (not null, empty string or empty list)
+ */
+export function isPresent(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Read a value as a number, if it is one
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+/**
+ * Order two values: numbers numerically, everything else as strings
+ * (PocketBase dates sort correctly as strings)
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== null && y !== null) return x - y;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Fold a page of records into the groups
+ */
+export function accumulate(
+  groups: AggregateGroups,
+  records: Record<string, unknown>[],
+  specs: AggregateSpec[],
+  groupBy: string[]
+): void {
+  for (const record of records) {
+    const values = Object.fromEntries(groupBy.map(field => [field, record[field] ?? null]));
+    const key = JSON.stringify(groupBy.map(field => values[field]));
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { values, accumulators: specs.map(() => ({ count: 0, sum: 0 })) };
+      groups.set(key, group);
+    }
+
+    specs.forEach((spec, i) => {
+      const acc = group.accumulators[i];
+      if (!spec.field) {
+        acc.count++;
+        return;
+      }
+
+      const value = record[spec.field];
+      if (!isPresent(value)) return;
+
+      if (spec.fn === 'sum' || spec.fn === 'avg') {
+        const n = toNumber(value);
+        if (n === null) return;
+        acc.sum += n;
+      }
+      acc.count++;
+      if (acc.min === undefined || compareValues(value, acc.min) < 0) acc.min = value;
+      if (acc.max === undefined || compareValues(value, acc.max) > 0) acc.max = value;
+    });
+  }
+}
+
+/**
+ * Turn the groups into result rows, ordered by group values
+ * (without group-by there is always exactly one row, even for no records)
+ */
+export function summarizeGroups(
+  groups: AggregateGroups,
+  specs: AggregateSpec[],
+  groupBy: string[]
+): Record<string, unknown>[] {
+  const states: GroupState[] = groups.size === 0 && groupBy.length === 0
+    ? [{ values: {}, accumulators: specs.map(() => ({ count: 0, sum: 0 })) }]
+    : [...groups.values()];
+
+  const rows = states.map(group => {
+    const row: Record<string, unknown> = { ...group.values };
+    specs.forEach((spec, i) => {
+      const acc = group.accumulators[i];
+      switch (spec.fn) {
+        case 'count':
+          row[spec.alias] = acc.count;
+          break;
+        case 'sum':
+          row[spec.alias] = acc.sum;
+          break;
+        case 'avg':
+          row[spec.alias] = acc.count > 0 ? acc.sum / acc.count : null;
+          break;
+        case 'min':
+          row[spec.alias] = acc.min ?? null;
+          break;
+        case 'max':
+          row[spec.alias] = acc.max ?? null;
+          break;
+      }
+    });
+    return row;
+  });
+
+  return rows.sort((a, b) => {
+    for (const key of groupBy) {
+      const order = compareValues(a[key] ?? '', b[key] ?? '');
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,231 @@
+/**
+ * Audit Service - Persistent JSONL log of every tool invocation
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getAuditConfig } from '../config.js';
+import { getAuthState, getInstance } from './pocketbase.js';
+import { matchesGlob } from './registry.js';
+import { MAX_AUDIT_PARAM_SIZE } from '../constants.js';
+import type { AuditConfig, AuditEntry } from '../types.js';
+
+/** Parameter keys whose values are never written to the audit log */
+const SECRET_KEY_PATTERN = /password|token|secret/i;
+
+/** Filters for searching the audit log */
+export interface AuditQuery {
+  /** Tool name or glob pattern */
+  tool?: string;
+  /** Only entries with this outcome */
+  outcome?: 'success' | 'error';
+  /** Only entries with this error code */
+  errorCode?: string;
+  /** Only entries from this MCP session (null: entries without a session, i.e. stdio) */
+  sessionId?: string | null;
+  /** Only entries at or after this ISO timestamp */
+  since?: string;
+  /** Only entries at or before this ISO timestamp */
+  until?: string;
+  /** Maximum number of entries to return */
+  limit: number;
+}
+
+/**
+ * Replace secret values (passwords, tokens) with a placeholder, recursively
+ */
+export function redactParams(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactParams(item));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, SECRET_KEY_PATTERN.test(key) ? '[REDACTED]' : redactParams(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Replace top-level parameter values larger than the audit limit (record
+ * payloads, import text) with a placeholder giving their size
+ */
+export function omitLargeParams(params: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(params).map(([key, value]) => {
+    const size = Buffer.byteLength(JSON.stringify(value) ?? '');
+    return [key, size > MAX_AUDIT_PARAM_SIZE ? `[OMITTED: ${size} bytes]` : value];
+  }));
+}
+
+/**
+ * Extract the error code from a formatted (TOML or JSON) error result
+ */
+function extractErrorCode(result: unknown): string | undefined {
+  const content = (result as { content?: { type: string; text?: string }[] } | undefined)?.content;
+  const text = content?.find(c => c.type === 'text')?.text ?? '';
+  return /"?code"?\s*[=:]\s*"([A-Z_]+)"/.exec(text)?.[1];
+}
+
+/**
+ * Describe who invoked a tool, from the session's auth state
+ */
+function getIdentity(sessionId: string | undefined, instance: string | undefined): AuditEntry['identity'] {
+  try {
+    const state = getAuthState(sessionId, instance);
+    return {
+      authType: state.authType,
+      id: state.model?.id ?? null,
+      email: state.model?.email || null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rotate the audit log when appending would exceed the size limit
+ * (audit.jsonl -> audit.jsonl.1 -> audit.jsonl.2 ...)
+ */
+function rotateIfNeeded(config: AuditConfig, path: string, incoming: number): void {
+  if (!existsSync(path) || statSync(path).size + incoming <= config.maxSize) {
+    return;
+  }
+
+  if (config.maxFiles === 0) {
+    rmSync(path);
+    return;
+  }
+
+  for (let i = config.maxFiles - 1; i >= 1; i--) {
+    if (existsSync(`${path}.${i}`)) {
+      renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+    }
+  }
+  renameSync(path, `${path}.1`);
+}
+
+/**
+ * Append an entry to the audit log (no-op when auditing is disabled)
+ * Failures are reported on stderr and never fail the tool call.
+ */
+export function writeAuditEntry(entry: AuditEntry, config: AuditConfig = getAuditConfig()): void {
+  if (!config.path) return;
+
+  try {
+    const line = JSON.stringify(entry) + '\n';
+    mkdirSync(dirname(config.path), { recursive: true });
+    rotateIfNeeded(config, config.path, Buffer.byteLength(line));
+    appendFileSync(config.path, line);
+  } catch (error) {
+    console.error('Failed to write audit log entry:', error);
+  }
+}
+
+/**
+ * Read all audit entries, newest first (current file, then rotated files)
+ */
+export function readAuditEntries(config: AuditConfig = getAuditConfig()): AuditEntry[] {
+  if (!config.path) return [];
+
+  const files = [config.path];
+  for (let i = 1; i <= config.maxFiles; i++) {
+    files.push(`${config.path}.${i}`);
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const file of files) {
+    if (!existsSync(file)) continue;
+    const lines = readFileSync(file, 'utf8').split('\n').filter(Boolean).reverse();
+    for (const line of lines) {
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // Skip partially written or corrupt lines
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Search the audit log, newest first
+ */
+export function queryAuditLog(
+  query: AuditQuery,
+  config: AuditConfig = getAuditConfig()
+): { scanned: number; totalMatches: number; entries: AuditEntry[] } {
+  const all = readAuditEntries(config);
+  const since = query.since ? Date.parse(query.since) : undefined;
+  const until = query.until ? Date.parse(query.until) : undefined;
+
+  const matches = all.filter(entry => {
+    const time = Date.parse(entry.timestamp);
+    return (!query.tool || matchesGlob(entry.tool, query.tool))
+      && (!query.outcome || entry.outcome === query.outcome)
+      && (!query.errorCode || entry.errorCode === query.errorCode)
+      && (query.sessionId === undefined || entry.sessionId === query.sessionId)
+      && (since === undefined || time >= since)
+      && (until === undefined || time <= until);
+  });
+
+  return {
+    scanned: all.length,
+    totalMatches: matches.length,
+    entries: matches.slice(0, query.limit),
+  };
+}
+
+/**
+ * Intercept tool registration so that every handler invocation is audited
+ */
+export function auditTools(server: McpServer): void {
+  const register = server.tool.bind(server) as (name: string, ...rest: unknown[]) => RegisteredTool;
+
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    const handler = rest[rest.length - 1] as (...args: unknown[]) => Promise<unknown>;
+
+    rest[rest.length - 1] = async (...args: unknown[]) => {
+      // Handlers receive (params, extra), or only (extra) for tools without parameters
+      const params = (args.length > 1 ? args[0] : {}) as Record<string, unknown>;
+      const extra = args[args.length - 1] as { sessionId?: string };
+      const instanceParam = typeof params.instance === 'string' ? params.instance : undefined;
+
+      let instance: string | null = null;
+      try {
+        instance = getInstance(instanceParam).name;
+      } catch {
+        // Unknown or unconfigured instance: the handler reports it
+      }
+
+      const identity = getIdentity(extra.sessionId, instanceParam);
+      const started = Date.now();
+      let result: unknown;
+      let thrown = false;
+
+      try {
+        result = await handler(...args);
+        return result;
+      } catch (error) {
+        thrown = true;
+        throw error;
+      } finally {
+        const isError = thrown || (result as { isError?: boolean } | undefined)?.isError === true;
+        const errorCode = isError ? extractErrorCode(result) ?? 'SERVER_ERROR' : undefined;
+        writeAuditEntry({
+          timestamp: new Date(started).toISOString(),
+          tool: name,
+          sessionId: extra.sessionId ?? null,
+          instance,
+          params: omitLargeParams(redactParams(params) as Record<string, unknown>),
+          identity,
+          durationMs: Date.now() - started,
+          outcome: isError ? 'error' : 'success',
+          ...(errorCode && { errorCode }),
+        });
+      }
+    };
+
+    return register(name, ...rest);
+  }) as McpServer['tool'];
+}
@@ -0,0 +1,204 @@
+/**
+ * Batch Service - Transactional record operations via PocketBase's batch API
+ *
+ * Operations are sent in chunks, one transactional batch request per chunk.
+ * When a chunk fails, PocketBase rolls it back and no further chunks are sent;
+ * earlier chunks stay committed.
+ */
+
+import type PocketBase from 'pocketbase';
+import { ClientResponseError, type RecordModel } from 'pocketbase';
+import { createErrorResponse } from './pocketbase.js';
+import { DEFAULT_BATCH_CHUNK_SIZE, ErrorCodes } from '../constants.js';
+import type { BatchOperation } from '../schemas/records.js';
+
+/** Result of one committed operation */
+export interface BatchOperationResult {
+  /** Index in the submitted operations */
+  index: number;
+  action: BatchOperation['action'];
+  collection: string;
+  /** HTTP status of the operation */
+  status: number;
+  /** Record ID (created, updated or deleted) */
+  id?: string;
+  /** Returned record (not for deletes) */
+  record?: RecordModel;
+}
+
+/** The operation that made its chunk fail */
+export interface BatchFailure {
+  /** Index in the submitted operations */
+  index: number;
+  action: BatchOperation['action'];
+  collection: string;
+  id?: string;
+  message: string;
+  fieldErrors?: Record<string, string>;
+  /** The chunk failed for a reason unrelated to its operations (connection, server error) */
+  aborted?: true;
+}
+
+/** Outcome of a batch run */
+export interface BatchRunResult {
+  /** Results of committed operations, in order */
+  results: BatchOperationResult[];
+  /** Failed operation, if a chunk was rolled back */
+  failure?: BatchFailure;
+  /** Number of chunks */
+  chunks: number;
+  /** Chunks committed before a failure (all chunks on success) */
+  chunksCommitted: number;
+  /** Operations rolled back or never sent because of a failure */
+  notCommitted: number;
+}
+
+/**
+ * Split operations into chunks of at most `size` items
+ */
+export function chunkOperations<T>(operations: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < operations.length; i += size) {
+    chunks.push(operations.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Determine how many operations fit in one batch request
+ *
+ * Superusers read the server's batch settings; other callers fall back to
+ * PocketBase's default limit.
+ *
+ * @throws ErrorResponse if the batch API is disabled
+ */
+export async function resolveBatchChunkSize(pb: PocketBase): Promise<number> {
+  if (!pb.authStore.isSuperuser) {
+    return DEFAULT_BATCH_CHUNK_SIZE;
+  }
+
+  const settings = await pb.settings.getAll();
+  const batch = settings.batch as { enabled?: boolean; maxRequests?: number } | undefined;
+  if (batch && batch.enabled === false) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      'The batch API is disabled on this PocketBase instance',
+      'Enable it in the dashboard under Settings > Application > Batch API, or send operations one by one'
+    );
+  }
+  return batch?.maxRequests && batch.maxRequests > 0 ? batch.maxRequests : DEFAULT_BATCH_CHUNK_SIZE;
+}
+
+/**
+ * Map a failed batch request back to the offending operation
+ */
+function toBatchFailure(error: ClientResponseError, chunk: BatchOperation[], offset: number): BatchFailure {
+  const requests = (error.response?.data as { requests?: Record<string, unknown> } | undefined)?.requests ?? {};
+  const [key, entry] = Object.entries(requests)[0] ?? [];
+  const position = key !== undefined && Number.isInteger(Number(key)) ? Number(key) : 0;
+
+  // The failed request's response is nested as { response: { status, body } } or { params: { response } }
+  const details = (entry ?? {}) as { message?: string; response?: unknown; params?: { response?: unknown } };
+  const response = (details.response ?? details.params?.response) as { body?: unknown } | undefined;
+  const body = (response?.body ?? response ?? {}) as { message?: string; data?: Record<string, { message?: string }> };
+
+  const fieldErrors = body.data && Object.keys(body.data).length > 0
+    ? Object.fromEntries(Object.entries(body.data).map(([field, err]) => [field, err?.message ?? 'Invalid value']))
+    : undefined;
+
+  const operation = chunk[Math.min(position, chunk.length - 1)];
+  return {
+    index: offset + position,
+    action: operation.action,
+    collection: operation.collection,
+    ...('id' in operation && { id: operation.id }),
+    message: body.message || details.message || error.message,
+    ...(fieldErrors && { fieldErrors }),
+  };
+}
+
+/**
+ * Send operations through the batch API, chunk by chunk
+ * @param onChunk - Called after each committed chunk with the number of committed operations
+ * @throws ErrorResponse / ClientResponseError for failures not caused by an operation
+ *         (connection problems, batch API disabled)
+ */
+export async function runBatch(
+  pb: PocketBase,
+  operations: BatchOperation[],
+  chunkSize: number,
+  onChunk?: (committed: number, total: number) => Promise<void> | void
+): Promise<BatchRunResult> {
+  const chunks = chunkOperations(operations, chunkSize);
+  const results: BatchOperationResult[] = [];
+
+  for (let c = 0; c < chunks.length; c++) {
+    const chunk = chunks[c];
+    const offset = c * chunkSize;
+    const batch = pb.createBatch();
+
+    for (const op of chunk) {
+      const service = batch.collection(op.collection);
+      switch (op.action) {
+        case 'create':
+          service.create(op.data);
+          break;
+        case 'update':
+          service.update(op.id, op.data);
+          break;
+        case 'upsert':
+          service.upsert(op.data);
+          break;
+        case 'delete':
+          service.delete(op.id);
+          break;
+      }
+    }
+
+    try {
+      const responses = await batch.send();
+      responses.forEach((response, i) => {
+        const op = chunk[i];
+        const record = op.action === 'delete' ? undefined : response.body as RecordModel;
+        results.push({
+          index: offset + i,
+          action: op.action,
+          collection: op.collection,
+          status: response.status,
+          id: op.action === 'delete' ? op.id : record?.id,
+          ...(record && { record }),
+        });
+      });
+    } catch (error) {
+      // Only 400 responses are per-operation failures; anything else aborts the run
+      if (!(error instanceof ClientResponseError) || error.status !== 400) {
+        if (c === 0) throw error;
+        return {
+          results,
+          failure: {
+            index: offset,
+            action: chunk[0].action,
+            collection: chunk[0].collection,
+            message: error instanceof Error ? error.message : String(error),
+            aborted: true,
+          },
+          chunks: chunks.length,
+          chunksCommitted: c,
+          notCommitted: operations.length - offset,
+        };
+      }
+
+      return {
+        results,
+        failure: toBatchFailure(error, chunk, offset),
+        chunks: chunks.length,
+        chunksCommitted: c,
+        notCommitted: operations.length - offset,
+      };
+    }
+
+    await onChunk?.(results.length, operations.length);
+  }
+
+  return { results, chunks: chunks.length, chunksCommitted: chunks.length, notCommitted: 0 };
+}
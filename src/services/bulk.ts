@@ -0,0 +1,129 @@
+/**
+ * Bulk Service - Update or delete every record matching a filter
+ *
+ * Matching record IDs are collected first, then changed through the batch
+ * API in chunks, so records that start or stop matching while the change
+ * runs are not picked up halfway.
+ */
+
+import type PocketBase from 'pocketbase';
+import { createErrorResponse } from './pocketbase.js';
+import { walkRecords } from './pagination.js';
+import { runBatch } from './batch.js';
+import { ErrorCodes, MAX_LIMIT } from '../constants.js';
+import type { BatchOperation } from '../schemas/records.js';
+
+/** Matched records shown before a bulk change */
+export interface BulkPreview {
+  /** Records matching the filter */
+  matched: number;
+  /** First matching records */
+  sample: Record<string, unknown>[];
+}
+
+/** Outcome of a bulk change */
+export interface BulkResult {
+  /** Whether every matched record was changed */
+  success: boolean;
+  /** Records matched when the change started */
+  matched: number;
+  /** IDs changed */
+  succeeded: string[];
+  /** The record that made its chunk fail */
+  failed: { id: string; message: string; fieldErrors?: Record<string, string> }[];
+  /** IDs rolled back with the failed chunk or never sent */
+  notApplied: string[];
+  /** Chunks the change was split into */
+  chunks: number;
+}
+
+/**
+ * Throw if more records match than the caller allowed
+ */
+function checkMaxAffected(matched: number, maxAffected: number): void {
+  if (matched > maxAffected) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      `Filter matches ${matched} records, more than maxAffected (${maxAffected})`,
+      'Narrow the filter, or raise maxAffected if all of these records should change'
+    );
+  }
+}
+
+/**
+ * Count the records matching a filter and fetch a sample of them
+ * @throws ErrorResponse if more than `maxAffected` records match
+ */
+export async function previewMatches(
+  pb: PocketBase,
+  collection: string,
+  filter: string,
+  sampleSize: number,
+  maxAffected: number
+): Promise<BulkPreview> {
+  const result = await pb.collection(collection).getList(1, Math.max(sampleSize, 1), { filter });
+  checkMaxAffected(result.totalItems, maxAffected);
+
+  return {
+    matched: result.totalItems,
+    sample: result.items.slice(0, sampleSize).map(item => ({ ...item })),
+  };
+}
+
+/**
+ * Collect the IDs of all records matching a filter
+ * @throws ErrorResponse if more than `maxAffected` records match
+ */
+export async function collectMatchingIds(
+  pb: PocketBase,
+  collection: string,
+  filter: string,
+  maxAffected: number
+): Promise<string[]> {
+  const ids: string[] = [];
+  const walk = await walkRecords(
+    pb,
+    collection,
+    { filter, sort: 'id', fields: 'id' },
+    { pageSize: MAX_LIMIT, maxRecords: maxAffected + 1 },
+    page => {
+      ids.push(...page.map(record => record.id));
+    }
+  );
+  checkMaxAffected(Math.max(walk.totalItems, ids.length), maxAffected);
+  return ids;
+}
+
+/**
+ * Apply one operation per matched ID through the batch API
+ * @param onChunk - Called after each committed chunk
+ */
+export async function applyToMatches(
+  pb: PocketBase,
+  ids: string[],
+  toOperation: (id: string) => BatchOperation,
+  chunkSize: number,
+  onChunk?: (committed: number, total: number) => Promise<void> | void
+): Promise<BulkResult> {
+  const result = await runBatch(pb, ids.map(toOperation), chunkSize, onChunk);
+  const succeeded = result.results.map(r => ids[r.index]);
+
+  if (!result.failure) {
+    return { success: true, matched: ids.length, succeeded, failed: [], notApplied: [], chunks: result.chunks };
+  }
+
+  const { failure } = result;
+  const failedId = ids[failure.index];
+  return {
+    success: false,
+    matched: ids.length,
+    succeeded,
+    failed: [{
+      id: failedId,
+      message: failure.message,
+      ...(failure.fieldErrors && { fieldErrors: failure.fieldErrors }),
+    }],
+    notApplied: ids.slice(succeeded.length).filter(id => id !== failedId),
+    chunks: result.chunks,
+  };
+}
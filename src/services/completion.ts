@@ -0,0 +1,224 @@
+/**
+ * Completion Service - Suggestions for collection names, fields, record IDs
+ * and backup keys
+ *
+ * MCP completion requests only reference prompt arguments and resource
+ * template variables, so tool arguments cannot be completed. Tools use
+ * closestMatch() instead to suggest a name when one is mistyped.
+ */
+
+import type PocketBase from 'pocketbase';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getClient } from './pocketbase.js';
+import { COMPLETION_CACHE_TTL_MS, MAX_COMPLETIONS } from '../constants.js';
+
+/** Collection summary kept for completions */
+export interface CachedCollection {
+  name: string;
+  fields: { name: string; type: string }[];
+}
+
+/** Cached collection list of one client */
+interface CollectionCacheEntry {
+  /** Cache generation the entry was loaded in */
+  generation: number;
+  /** Load timestamp (ms since epoch) */
+  loadedAt: number;
+  collections: CachedCollection[];
+}
+
+/** Cached collections per client (each session and instance has its own client) */
+const cache = new WeakMap<PocketBase, CollectionCacheEntry>();
+
+/** Bumped whenever collections change, invalidating every cache entry */
+let generation = 0;
+
+/**
+ * Get the client of the session a server instance is connected to
+ * (completion callbacks do not receive the request's session ID)
+ * @returns The client, or null when the instance is unknown
+ */
+export function getServerClient(server: McpServer, instance?: string): PocketBase | null {
+  try {
+    return getClient(server.server.transport?.sessionId, instance);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the collections visible to a client, cached for a short time
+ * Returns an empty list when the client cannot read schemas.
+ */
+export async function getCachedCollections(pb: PocketBase): Promise<CachedCollection[]> {
+  if (!pb.authStore.isSuperuser) return [];
+
+  const entry = cache.get(pb);
+  if (entry && entry.generation === generation && Date.now() - entry.loadedAt < COMPLETION_CACHE_TTL_MS) {
+    return entry.collections;
+  }
+
+  const list = await pb.collections.getFullList({ sort: 'name', fields: 'name,fields' });
+  const collections = list.map(col => ({
+    name: col.name,
+    fields: (col.fields ?? []).map(f => ({ name: f.name, type: f.type })),
+  }));
+  cache.set(pb, { generation, loadedAt: Date.now(), collections });
+
+  return collections;
+}
+
+/**
+ * Drop all cached collections (call after creating, updating or deleting a collection)
+ */
+export function invalidateCollectionCache(): void {
+  generation++;
+}
+
+/**
+ * Filter candidates by a typed value: prefix matches first, then substring
+ * matches, case-insensitive
+ */
+export function matchCompletions(value: string, candidates: string[]): string[] {
+  const needle = value.toLowerCase();
+  const prefix = candidates.filter(c => c.toLowerCase().startsWith(needle));
+  const substring = candidates.filter(c => !c.toLowerCase().startsWith(needle) && c.toLowerCase().includes(needle));
+
+  return [...prefix, ...substring].slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Find the candidate closest to a mistyped value
+ * @returns The closest candidate, or null when none is reasonably close
+ */
+export function closestMatch(value: string, candidates: string[]): string | null {
+  const needle = value.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(needle.length / 3));
+
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(needle, candidate.toLowerCase());
+    if (distance < bestDistance && distance <= maxDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Complete a collection name
+ */
+export async function completeCollectionName(pb: PocketBase | null, value: string): Promise<string[]> {
+  if (!pb) return [];
+
+  try {
+    const collections = await getCachedCollections(pb);
+    return matchCompletions(value, collections.map(c => c.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Complete a comma-separated list of field names (as used by sort, fields
+ * and expand); only the last entry is completed and a leading - or + kept
+ * @param types - Only suggest fields of these types (e.g. relation for expand)
+ */
+export async function completeFieldNames(
+  pb: PocketBase | null,
+  collectionName: string | undefined,
+  value: string,
+  types?: string[]
+): Promise<string[]> {
+  if (!pb || !collectionName) return [];
+
+  try {
+    const collections = await getCachedCollections(pb);
+    const collection = collections.find(c => c.name === collectionName);
+    if (!collection) return [];
+
+    const head = value.slice(0, value.lastIndexOf(',') + 1);
+    const last = value.slice(head.length).trimStart();
+    const sign = /^[-+]/.test(last) ? last[0] : '';
+    const names = collection.fields
+      .filter(f => !types || types.includes(f.type))
+      .map(f => f.name);
+
+    return matchCompletions(last.slice(sign.length), names).map(name => `${head}${sign}${name}`);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Complete a record ID from the most recent records of a collection
+ */
+export async function completeRecordId(
+  pb: PocketBase | null,
+  collectionName: string | undefined,
+  value: string
+): Promise<string[]> {
+  if (!pb || !collectionName) return [];
+
+  try {
+    const result = await pb.collection(collectionName).getList(1, MAX_COMPLETIONS, {
+      fields: 'id',
+      skipTotal: true,
+      ...(value && { filter: pb.filter('id ~ {:value}', { value: `${value}%` }) }),
+    });
+    return result.items.map(r => r.id);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Complete a backup key
+ */
+export async function completeBackupKey(pb: PocketBase | null, value: string): Promise<string[]> {
+  if (!pb?.authStore.isSuperuser) return [];
+
+  try {
+    const backups = await pb.backups.getFullList();
+    return matchCompletions(value, backups.map(b => b.key));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Suggest the intended collection when a name does not exist
+ * @returns A suggestion message, or null when there is nothing to suggest
+ */
+export async function suggestCollectionName(pb: PocketBase, name: string): Promise<string | null> {
+  try {
+    const names = (await getCachedCollections(pb)).map(c => c.name);
+    if (names.includes(name)) return null;
+
+    const match = closestMatch(name, names);
+    return match ? `Collection "${name}" does not exist. Did you mean "${match}"?` : null;
+  } catch {
+    return null;
+  }
+}
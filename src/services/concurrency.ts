@@ -0,0 +1,99 @@
+/**
+ * Concurrency Service - Optimistic preconditions for record writes
+ *
+ * The record is re-read right before the write and compared with what the
+ * caller last saw. This narrows the window for lost updates but does not
+ * close it: PocketBase has no conditional update, so a write landing between
+ * the read and the update still wins.
+ */
+
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import { createErrorResponse } from './pocketbase.js';
+import { isEqualValue } from './diff.js';
+import { ErrorCodes } from '../constants.js';
+
+/** What the caller expects the stored record to look like */
+export interface WritePrecondition {
+  /** The record's `updated` value when the caller read it */
+  ifUnmodifiedSince?: string;
+  /** Field values the caller expects to be current */
+  expected?: Record<string, unknown>;
+}
+
+/**
+ * Whether any precondition is set
+ */
+export function hasPrecondition(precondition: WritePrecondition): boolean {
+  return precondition.ifUnmodifiedSince !== undefined || precondition.expected !== undefined;
+}
+
+/**
+ * Parse a PocketBase timestamp ("2026-01-02 10:00:00.000Z" or ISO 8601)
+ * @returns Milliseconds since the epoch, or NaN
+ */
+function parseTimestamp(value: string): number {
+  return Date.parse(value.trim().replace(' ', 'T'));
+}
+
+/**
+ * Compare a record with the preconditions
+ * @returns Problems keyed by field name (empty when every precondition holds)
+ */
+export function checkPreconditions(
+  current: Record<string, unknown>,
+  precondition: WritePrecondition
+): Record<string, string> {
+  const problems: Record<string, string> = {};
+
+  if (precondition.ifUnmodifiedSince !== undefined) {
+    const updated = current.updated;
+    if (typeof updated !== 'string' || updated === '') {
+      problems.updated = 'Record has no "updated" field; use expected instead';
+    } else {
+      const since = parseTimestamp(precondition.ifUnmodifiedSince);
+      const at = parseTimestamp(updated);
+      const modified = Number.isNaN(since) || Number.isNaN(at)
+        ? updated !== precondition.ifUnmodifiedSince
+        : at > since;
+      if (modified) {
+        problems.updated = `Modified at ${updated}, after ${precondition.ifUnmodifiedSince}`;
+      }
+    }
+  }
+
+  for (const [field, value] of Object.entries(precondition.expected ?? {})) {
+    if (!isEqualValue(current[field], value)) {
+      problems[field] = `Expected ${JSON.stringify(value ?? null)}, found ${JSON.stringify(current[field] ?? null)}`;
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Re-read a record and check the preconditions before writing it
+ * @returns The current record
+ * @throws ErrorResponse (CONFLICT) with the current values if a precondition fails
+ */
+export async function requirePreconditions(
+  pb: PocketBase,
+  collection: string,
+  id: string,
+  precondition: WritePrecondition
+): Promise<RecordModel> {
+  const current = await pb.collection(collection).getOne(id);
+  const problems = checkPreconditions(current, precondition);
+
+  if (Object.keys(problems).length > 0) {
+    throw createErrorResponse(
+      ErrorCodes.CONFLICT,
+      `Record "${id}" in "${collection}" changed since it was read`,
+      'Review the current values, reapply your change on top of them, and retry with the new updated value',
+      problems,
+      { ...current }
+    );
+  }
+
+  return current;
+}
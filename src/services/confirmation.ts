@@ -0,0 +1,106 @@
+/**
+ * Confirmation Service - Two-phase confirmation for destructive operations
+ *
+ * The first call to a destructive tool returns an impact preview and a
+ * short-lived token. Only a second call presenting that token, from the same
+ * session and for the same target, performs the operation.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { createErrorResponse } from './pocketbase.js';
+import { CONFIRMATION_TTL_MS, ErrorCodes } from '../constants.js';
+
+/** A pending confirmation */
+interface PendingConfirmation {
+  /** Session, tool and target the token was issued for */
+  scope: string;
+  /** Expiry timestamp (ms since epoch) */
+  expiresAt: number;
+}
+
+/** What a confirmation token authorizes */
+export interface ConfirmationScope {
+  /** MCP session ID (undefined for stdio) */
+  sessionId?: string;
+  /** Tool name */
+  tool: string;
+  /** Target identifier (e.g. instance + collection + record ID) */
+  target: string;
+}
+
+/** Pending confirmations keyed by token */
+const pending = new Map<string, PendingConfirmation>();
+
+/**
+ * Serialize a scope for comparison
+ */
+function scopeKey(scope: ConfirmationScope): string {
+  return JSON.stringify([scope.sessionId ?? null, scope.tool, scope.target]);
+}
+
+/**
+ * Drop expired confirmations
+ */
+function pruneExpired(now: number): void {
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt <= now) {
+      pending.delete(token);
+    }
+  }
+}
+
+/**
+ * Issue a confirmation token for a destructive operation
+ */
+export function issueConfirmation(scope: ConfirmationScope): { confirmToken: string; expiresAt: string } {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const confirmToken = randomBytes(12).toString('hex');
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pending.set(confirmToken, { scope: scopeKey(scope), expiresAt });
+
+  return { confirmToken, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Build the first-phase response of a destructive tool: the impact preview
+ * plus a freshly issued confirmation token
+ */
+export function requestConfirmation(scope: ConfirmationScope, preview: Record<string, unknown>): Record<string, unknown> {
+  const { confirmToken, expiresAt } = issueConfirmation(scope);
+
+  return {
+    confirmationRequired: true,
+    ...preview,
+    confirmToken,
+    expiresAt,
+    message: `Nothing was changed yet. Review the impact, then call ${scope.tool} again with the same arguments and confirmToken="${confirmToken}" to proceed.`,
+  };
+}
+
+/**
+ * Consume a confirmation token (single use)
+ * @throws ErrorResponse if the token is unknown, expired, or was issued for another operation
+ */
+export function consumeConfirmation(token: string, scope: ConfirmationScope): void {
+  pruneExpired(Date.now());
+
+  const entry = pending.get(token);
+  if (!entry || entry.scope !== scopeKey(scope)) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      'Invalid or expired confirmation token',
+      `Call ${scope.tool} again without confirmToken to get a new impact preview and token`
+    );
+  }
+
+  pending.delete(token);
+}
+
+/**
+ * Clear all pending confirmations (useful for testing)
+ */
+export function resetConfirmations(): void {
+  pending.clear();
+}
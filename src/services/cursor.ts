@@ -0,0 +1,151 @@
+/**
+ * Cursor Service - Opaque keyset pagination tokens for record lists
+ *
+ * A cursor encodes the sort, a fingerprint of the filter, and the sort values
+ * plus id of the last record returned. The next request turns it into a
+ * keyset filter ("after this row"), so pages stay stable while rows are
+ * inserted or deleted, and no offset or total count is needed.
+ */
+
+import { createHash } from 'node:crypto';
+import type PocketBase from 'pocketbase';
+import { createErrorResponse } from './pocketbase.js';
+import { ErrorCodes } from '../constants.js';
+
+/** Cursor format version */
+const CURSOR_VERSION = 1;
+
+/** One sort key */
+export interface SortKey {
+  field: string;
+  desc: boolean;
+}
+
+/** Decoded cursor contents */
+interface CursorState {
+  v: number;
+  /** Normalized sort, including the id tiebreaker */
+  s: string;
+  /** Filter fingerprint */
+  f: string;
+  /** Sort values of the last record, in sort key order */
+  k: unknown[];
+}
+
+/**
+ * Parse a sort expression and append the id tiebreaker
+ * @returns The sort keys, or null when a key cannot be used for keyset
+ *          pagination (relation paths, @random, @rowid...)
+ */
+export function parseSortKeys(sort: string): SortKey[] | null {
+  const keys: SortKey[] = [];
+  for (const part of sort.split(',').map(p => p.trim()).filter(Boolean)) {
+    const desc = part.startsWith('-');
+    const field = part.replace(/^[-+]/, '');
+    if (!/^[A-Za-z_]\w*$/.test(field)) {
+      return null;
+    }
+    keys.push({ field, desc });
+  }
+
+  if (!keys.some(k => k.field === 'id')) {
+    keys.push({ field: 'id', desc: false });
+  }
+  return keys;
+}
+
+/**
+ * Format sort keys back into a PocketBase sort expression
+ */
+export function formatSortKeys(keys: SortKey[]): string {
+  return keys.map(k => `${k.desc ? '-' : ''}${k.field}`).join(',');
+}
+
+/**
+ * List sort keys not selected by a `fields` parameter
+ * (modifiers like `:excerpt(200)` are ignored; `*` selects everything)
+ */
+export function missingFields(fields: string, keys: SortKey[]): string[] {
+  const selected = new Set(fields.split(',').map(f => f.trim().split(':')[0]));
+  if (selected.has('*')) return [];
+  return keys.map(k => k.field).filter(field => !selected.has(field));
+}
+
+/**
+ * Fingerprint a filter so a cursor cannot be reused with another query
+ */
+function filterFingerprint(filter: string | undefined): string {
+  return createHash('sha256').update(filter ?? '').digest('hex').slice(0, 16);
+}
+
+/**
+ * Create a cursor pointing after the given record
+ */
+export function encodeCursor(keys: SortKey[], filter: string | undefined, last: Record<string, unknown>): string {
+  const state: CursorState = {
+    v: CURSOR_VERSION,
+    s: formatSortKeys(keys),
+    f: filterFingerprint(filter),
+    k: keys.map(k => last[k.field] ?? null),
+  };
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Build the "after this row" filter for a cursor
+ *
+ * For sort keys k1..kn the row must satisfy
+ * (k1 > v1) || (k1 = v1 && k2 > v2) || ... (with < for descending keys).
+ */
+function keysetFilter(pb: PocketBase, keys: SortKey[], values: unknown[]): string {
+  const params: Record<string, unknown> = {};
+  const branches = keys.map((key, i) => {
+    const terms = keys.slice(0, i).map((prev, j) => `${prev.field} = {:k${j}}`);
+    terms.push(`${key.field} ${key.desc ? '<' : '>'} {:k${i}}`);
+    params[`k${i}`] = values[i];
+    return terms.length > 1 ? `(${terms.join(' && ')})` : terms[0];
+  });
+  return pb.filter(branches.join(' || '), params);
+}
+
+/**
+ * Turn a cursor into the sort and filter of the next page
+ * @throws ErrorResponse if the cursor is malformed or was issued for another sort or filter
+ */
+export function resolveCursor(
+  pb: PocketBase,
+  cursor: string,
+  sort: string | undefined,
+  filter: string | undefined
+): { sort: string; filter: string } {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorState;
+  } catch {
+    state = { v: 0, s: '', f: '', k: [] };
+  }
+
+  const keys = state.v === CURSOR_VERSION ? parseSortKeys(state.s) : null;
+  if (!keys || !Array.isArray(state.k) || state.k.length !== keys.length) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      'Invalid cursor',
+      'Pass the nextCursor value from a previous pocketbase_list_records response unchanged'
+    );
+  }
+
+  const requested = parseSortKeys(sort ?? '');
+  if (!requested || formatSortKeys(requested) !== state.s || filterFingerprint(filter) !== state.f) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      'Cursor was issued for a different sort or filter',
+      'Repeat the original sort and filter with the cursor, or start over without a cursor'
+    );
+  }
+
+  const after = keysetFilter(pb, keys, state.k);
+  return {
+    sort: state.s,
+    filter: filter ? `(${filter}) && (${after})` : after,
+  };
+}
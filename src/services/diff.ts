@@ -0,0 +1,96 @@
+/**
+ * Diff Service - Describe changes between current and proposed data
+ */
+
+/** Change of a single value */
+export interface ValueChange {
+  from: unknown;
+  to: unknown;
+}
+
+/** Field-level diff between two collection field lists */
+export interface FieldsDiff {
+  /** Field definitions only present in the new list */
+  added: Record<string, unknown>[];
+  /** Names of fields only present in the current list */
+  removed: string[];
+  /** Changed properties keyed by field name */
+  changed: Record<string, Record<string, ValueChange>>;
+}
+
+/**
+ * Check for a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep equality for JSON-like values, ignoring object key order
+ * (undefined and null are equal)
+ */
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  a = a ?? null;
+  b = b ?? null;
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => isEqualValue(item, b[i]));
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => Object.hasOwn(b, key) && isEqualValue(a[key], b[key]));
+}
+
+/**
+ * Diff the given keys of two objects
+ * @param keys - Keys to compare (default: the keys of `after`)
+ * @returns Changes keyed by property name (unchanged keys omitted)
+ */
+export function diffValues(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  keys: string[] = Object.keys(after)
+): Record<string, ValueChange> {
+  const changes: Record<string, ValueChange> = {};
+  for (const key of keys) {
+    if (!isEqualValue(before[key], after[key])) {
+      changes[key] = { from: before[key] ?? null, to: after[key] ?? null };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Diff two collection field lists, matching fields by name
+ * 
+ * Only the properties present in the new definition are compared, so
+ * server-managed properties (id, system, hidden...) do not show as changes.
+ */
+export function diffCollectionFields(
+  before: Record<string, unknown>[],
+  after: Record<string, unknown>[]
+): FieldsDiff {
+  const current = new Map(before.map(f => [f.name as string, f]));
+  const proposed = new Set(after.map(f => f.name as string));
+  const diff: FieldsDiff = { added: [], removed: [], changed: {} };
+
+  for (const field of after) {
+    const existing = current.get(field.name as string);
+    if (!existing) {
+      diff.added.push(field);
+      continue;
+    }
+
+    const changes = diffValues(existing, field, Object.keys(field).filter(k => k !== 'name'));
+    if (Object.keys(changes).length > 0) {
+      diff.changed[field.name as string] = changes;
+    }
+  }
+
+  diff.removed = before
+    .map(f => f.name as string)
+    .filter(name => !proposed.has(name));
+
+  return diff;
+}
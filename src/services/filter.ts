@@ -0,0 +1,422 @@
+/**
+ * Filter Service - Parse and validate PocketBase filter expressions locally
+ *
+ * Filters are checked before they are sent so that typos come back with a
+ * column position and a suggestion instead of a generic 400 from the server.
+ * The grammar follows PocketBase's:
+ *
+ *   expr       := and ('||' and)*
+ *   and        := primary ('&&' primary)*
+ *   primary    := '(' expr ')' | operand OP operand
+ *   operand    := field | @macro | literal | {:param} | func '(' operand, ... ')'
+ */
+
+import type PocketBase from 'pocketbase';
+import { createErrorResponse } from './pocketbase.js';
+import { closestMatch, getCachedCollections, type CachedCollection } from './completion.js';
+import { ErrorCodes } from '../constants.js';
+import type { WhereClause } from '../schemas/where.js';
+
+/** Comparison operators (each also has an "any of" variant prefixed with ?) */
+const OPERATORS = ['=', '!=', '>', '>=', '<', '<=', '~', '!~'];
+
+/** Datetime macros */
+const DATETIME_MACROS = [
+  '@now', '@second', '@minute', '@hour', '@weekday', '@day', '@month', '@year',
+  '@yesterday', '@tomorrow', '@todayStart', '@todayEnd',
+  '@monthStart', '@monthEnd', '@yearStart', '@yearEnd',
+];
+
+/** Sections of @request */
+const REQUEST_SECTIONS = ['auth', 'body', 'query', 'headers', 'method', 'context'];
+
+/** Field modifiers */
+const MODIFIERS = ['each', 'length', 'lower', 'isset', 'changed'];
+
+/** Filter functions */
+const FUNCTIONS = ['geoDistance', 'strftime'];
+
+/** Literal keywords */
+const KEYWORDS = new Map<string, boolean | null>([['true', true], ['false', false], ['null', null]]);
+
+/** A token with its 1-based column */
+interface Token {
+  kind: 'lparen' | 'rparen' | 'comma' | 'and' | 'or' | 'op' | 'string' | 'number' | 'param' | 'name';
+  text: string;
+  column: number;
+}
+
+/** An operand of a comparison */
+export type FilterOperand =
+  | { type: 'field'; path: string; modifier?: string; column: number }
+  | { type: 'macro'; name: string; column: number }
+  | { type: 'literal'; value: string | number | boolean | null; column: number }
+  | { type: 'param'; name: string; column: number }
+  | { type: 'function'; name: string; args: FilterOperand[]; column: number };
+
+/** A parsed filter expression */
+export type FilterNode =
+  | { type: 'logical'; operator: '&&' | '||'; left: FilterNode; right: FilterNode }
+  | { type: 'comparison'; operator: string; left: FilterOperand; right: FilterOperand; column: number };
+
+/** A problem found in a filter */
+export interface FilterIssue {
+  /** 1-based position in the filter string */
+  column: number;
+  message: string;
+}
+
+/**
+ * Build the error for filter issues
+ */
+function filterError(filter: string, issues: FilterIssue[]): ReturnType<typeof createErrorResponse> {
+  const [first] = issues;
+  return createErrorResponse(
+    ErrorCodes.VALIDATION_ERROR,
+    `Invalid filter at column ${first.column}: ${first.message}`,
+    `Problem marked with ^:\n${filter}\n${' '.repeat(first.column - 1)}^`,
+    Object.fromEntries(issues.map(issue => [`filter:${issue.column}`, issue.message]))
+  );
+}
+
+/**
+ * Suffix suggesting the closest candidate, if any
+ */
+function didYouMean(value: string, candidates: string[]): string {
+  const match = closestMatch(value, candidates);
+  return match ? `. Did you mean "${match}"?` : '';
+}
+
+/**
+ * Split a filter into tokens
+ * @throws FilterIssue on characters that cannot start a token
+ */
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < filter.length) {
+    const rest = filter.slice(i);
+    const column = i + 1;
+
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+    if (rest.startsWith('//')) {
+      const end = filter.indexOf('\n', i);
+      i = end === -1 ? filter.length : end;
+      continue;
+    }
+
+    const fixed: [string, Token['kind']][] = [['&&', 'and'], ['||', 'or'], ['(', 'lparen'], [')', 'rparen'], [',', 'comma']];
+    const symbol = fixed.find(([text]) => rest.startsWith(text));
+    if (symbol) {
+      tokens.push({ kind: symbol[1], text: symbol[0], column });
+      i += symbol[0].length;
+      continue;
+    }
+
+    const op = /^\??(?:!=|>=|<=|!~|=|>|<|~)/.exec(rest);
+    if (op) {
+      tokens.push({ kind: 'op', text: op[0], column });
+      i += op[0].length;
+      continue;
+    }
+
+    if (rest[0] === '"' || rest[0] === "'") {
+      const quote = rest[0];
+      let j = 1;
+      while (j < rest.length && rest[j] !== quote) {
+        j += rest[j] === '\\' ? 2 : 1;
+      }
+      if (j >= rest.length) {
+        throw { column, message: 'Unterminated string' } satisfies FilterIssue;
+      }
+      tokens.push({ kind: 'string', text: rest.slice(0, j + 1), column });
+      i += j + 1;
+      continue;
+    }
+
+    const patterns: [RegExp, Token['kind']][] = [
+      [/^-?\d+(?:\.\d+)?/, 'number'],
+      [/^\{:\w+\}/, 'param'],
+      [/^@?[A-Za-z_]\w*(?:[.:]\w+)*/, 'name'],
+    ];
+    const matched = patterns.map(([pattern, kind]) => [pattern.exec(rest), kind] as const).find(([m]) => m);
+    if (matched?.[0]) {
+      tokens.push({ kind: matched[1], text: matched[0][0], column });
+      i += matched[0][0].length;
+      continue;
+    }
+
+    throw { column, message: rest.startsWith('&') || rest.startsWith('|')
+      ? `Unexpected "${rest[0]}" (use && or ||)`
+      : `Unexpected character "${rest[0]}"` } satisfies FilterIssue;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parse of the tokens
+ * @param length - Filter length, for errors at the end of the input
+ * @throws FilterIssue on the first syntax error
+ */
+function parseTokens(tokens: Token[], length: number): FilterNode {
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  const next = (expected: string): Token => {
+    const token = tokens[position++];
+    if (!token) {
+      throw { column: length + 1, message: `Unexpected end of filter, expected ${expected}` } satisfies FilterIssue;
+    }
+    return token;
+  };
+
+  const issue = (token: Token, message: string): FilterIssue => ({ column: token.column, message });
+
+  const parseFunction = (name: Token): FilterOperand => {
+    next('(');
+    const args: FilterOperand[] = [];
+    if (peek()?.kind !== 'rparen') {
+      args.push(parseOperand());
+      while (peek()?.kind === 'comma') {
+        position++;
+        args.push(parseOperand());
+      }
+    }
+    const close = next('")"');
+    if (close.kind !== 'rparen') {
+      throw issue(close, `Expected "," or ")" but found "${close.text}"`);
+    }
+    return { type: 'function', name: name.text, args, column: name.column };
+  };
+
+  const parseOperand = (): FilterOperand => {
+    const token = next('a field or value');
+    const { column } = token;
+
+    switch (token.kind) {
+      case 'string':
+        return { type: 'literal', value: token.text.slice(1, -1), column };
+      case 'number':
+        return { type: 'literal', value: Number(token.text), column };
+      case 'param':
+        return { type: 'param', name: token.text.slice(2, -1), column };
+      case 'name':
+        break;
+      default:
+        throw issue(token, `Expected a field or value but found "${token.text}"`);
+    }
+
+    if (KEYWORDS.has(token.text)) {
+      return { type: 'literal', value: KEYWORDS.get(token.text) ?? null, column };
+    }
+    if (peek()?.kind === 'lparen') {
+      return parseFunction(token);
+    }
+    if (token.text.startsWith('@')) {
+      return { type: 'macro', name: token.text, column };
+    }
+
+    const [path, modifier, ...more] = token.text.split(':');
+    if (more.length > 0) {
+      throw issue(token, `Only one modifier is allowed in "${token.text}"`);
+    }
+    return { type: 'field', path, ...(modifier !== undefined && { modifier }), column };
+  };
+
+  const parsePrimary = (): FilterNode => {
+    if (peek()?.kind === 'lparen') {
+      const open = next('(');
+      const node = parseOr();
+      if (peek()?.kind !== 'rparen') {
+        throw issue(open, 'Unclosed "("');
+      }
+      position++;
+      return node;
+    }
+
+    const left = parseOperand();
+    const op = next('an operator');
+    if (op.kind !== 'op') {
+      throw issue(op, `Expected an operator (${OPERATORS.join(' ')}) but found "${op.text}"`);
+    }
+    const right = parseOperand();
+    return { type: 'comparison', operator: op.text, left, right, column: op.column };
+  };
+
+  const parseAnd = (): FilterNode => {
+    let left = parsePrimary();
+    while (peek()?.kind === 'and') {
+      position++;
+      left = { type: 'logical', operator: '&&', left, right: parsePrimary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): FilterNode => {
+    let left = parseAnd();
+    while (peek()?.kind === 'or') {
+      position++;
+      left = { type: 'logical', operator: '||', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const node = parseOr();
+  const extra = peek();
+  if (extra) {
+    throw issue(extra, extra.kind === 'rparen' ? 'Unmatched ")"' : `Expected && or || before "${extra.text}"`);
+  }
+  return node;
+}
+
+/**
+ * Parse a filter expression
+ * @throws ErrorResponse with the column of the first syntax error
+ */
+export function parseFilter(filter: string): FilterNode {
+  try {
+    return parseTokens(tokenize(filter), filter.length);
+  } catch (error) {
+    const issue = error as FilterIssue;
+    if (typeof issue?.column !== 'number') throw error;
+    throw filterError(filter, [issue]);
+  }
+}
+
+/**
+ * Collect the operands of a filter, in order
+ */
+function collectOperands(node: FilterNode, out: FilterOperand[] = []): FilterOperand[] {
+  if (node.type === 'logical') {
+    collectOperands(node.left, out);
+    collectOperands(node.right, out);
+    return out;
+  }
+  for (const operand of [node.left, node.right]) {
+    out.push(operand);
+    if (operand.type === 'function') out.push(...operand.args);
+  }
+  return out;
+}
+
+/**
+ * Check one operand's names against the schema
+ */
+function checkOperand(operand: FilterOperand, collection: CachedCollection, collections: CachedCollection[]): string | null {
+  const collectionNames = collections.map(c => c.name);
+
+  switch (operand.type) {
+    case 'function':
+      return FUNCTIONS.includes(operand.name) ? null : `Unknown function "${operand.name}"${didYouMean(operand.name, FUNCTIONS)}`;
+
+    case 'macro': {
+      const [head, section, ...rest] = operand.name.split(/[.:]/);
+      if (head === '@request') {
+        if (!section || !REQUEST_SECTIONS.includes(section)) {
+          return `Unknown @request section "${section ?? ''}" (expected ${REQUEST_SECTIONS.join(', ')})${didYouMean(section ?? '', REQUEST_SECTIONS)}`;
+        }
+        return null;
+      }
+      if (head === '@collection') {
+        if (!section || rest.length === 0) {
+          return 'Use @collection.<name>.<field>';
+        }
+        if (collections.length > 0 && !collectionNames.includes(section)) {
+          return `Unknown collection "${section}"${didYouMean(section, collectionNames)}`;
+        }
+        return null;
+      }
+      if (operand.name.includes('.') || operand.name.includes(':') || !DATETIME_MACROS.includes(operand.name)) {
+        return `Unknown macro "${operand.name}"${didYouMean(operand.name, DATETIME_MACROS)}`;
+      }
+      return null;
+    }
+
+    case 'field': {
+      if (operand.modifier !== undefined && !MODIFIERS.includes(operand.modifier)) {
+        return `Unknown modifier ":${operand.modifier}"${didYouMean(operand.modifier, MODIFIERS)}`;
+      }
+
+      const [name] = operand.path.split('.');
+      const backRelation = /^(\w+)_via_\w+$/.exec(name);
+      if (backRelation) {
+        return collections.length > 0 && !collectionNames.includes(backRelation[1])
+          ? `Unknown collection "${backRelation[1]}" in back-relation "${name}"${didYouMean(backRelation[1], collectionNames)}`
+          : null;
+      }
+
+      const fieldNames = collection.fields.map(f => f.name);
+      if (name === 'id' || fieldNames.includes(name)) return null;
+      return `Unknown field "${name}" in "${collection.name}"${didYouMean(name, fieldNames)}`;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check the names used in a parsed filter against a collection's schema
+ * @returns All problems found, in order of appearance
+ */
+export function validateFilterNames(
+  node: FilterNode,
+  collection: CachedCollection,
+  collections: CachedCollection[] = []
+): FilterIssue[] {
+  return collectOperands(node).flatMap(operand => {
+    const message = checkOperand(operand, collection, collections);
+    return message ? [{ column: operand.column, message }] : [];
+  });
+}
+
+/**
+ * Check a filter before sending it to PocketBase
+ *
+ * Syntax is always checked. Field and collection names are checked when the
+ * client can read schemas (admin authentication).
+ *
+ * @throws ErrorResponse listing every problem with its column
+ */
+export async function checkFilter(pb: PocketBase, collectionName: string, filter: string | undefined): Promise<void> {
+  if (!filter?.trim()) return;
+
+  const node = parseFilter(filter);
+  const collections = await getCachedCollections(pb);
+  const collection = collections.find(c => c.name === collectionName);
+  if (!collection) return;
+
+  const issues = validateFilterNames(node, collection, collections);
+  if (issues.length > 0) {
+    throw filterError(filter, issues);
+  }
+}
+
+/**
+ * Compile a structured `where` tree into a filter string
+ * Values are bound with pb.filter(), so they are always escaped.
+ */
+export function compileWhere(pb: PocketBase, where: WhereClause): string {
+  if ('and' in where || 'or' in where) {
+    const [operator, clauses] = 'and' in where ? [' && ', where.and] : [' || ', where.or];
+    const parts = clauses.map(clause => compileWhere(pb, clause));
+    return parts.length === 1 ? parts[0] : parts.map(part => `(${part})`).join(operator);
+  }
+  return pb.filter(`${where.field} ${where.op} {:value}`, { value: where.value });
+}
+
+/**
+ * Join filter strings with &&, skipping empty ones
+ */
+export function combineFilters(...filters: (string | undefined)[]): string | undefined {
+  const parts = filters.filter((f): f is string => Boolean(f?.trim()));
+  if (parts.length <= 1) return parts[0];
+  return parts.map(part => `(${part})`).join(' && ');
+}
@@ -0,0 +1,545 @@
+/**
+ * Import Service - Read CSV, JSON and NDJSON rows into collection records
+ *
+ * Rows are parsed, renamed through the column mapping, coerced to the
+ * collection's field types and validated locally. Only valid rows are sent,
+ * through the batch API; a row the server rejects is reported and the rest
+ * of its chunk is sent again, so one bad row never blocks the others.
+ */
+
+import { resolve, relative, isAbsolute, extname } from 'node:path';
+import type PocketBase from 'pocketbase';
+import type { CollectionField, CollectionModel } from 'pocketbase';
+import { createErrorResponse } from './pocketbase.js';
+import { runBatch } from './batch.js';
+import { validateRecordData, AUTH_EXTRA_FIELDS } from './validation.js';
+import { closestMatch } from './completion.js';
+import { ErrorCodes } from '../constants.js';
+import type { ImportConfig } from '../types.js';
+
+/** Supported source formats */
+export type ImportFormat = 'csv' | 'json' | 'ndjson';
+
+/** A source row, numbered from 1 in source order */
+export interface ImportRow {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+/** Why a row was not imported */
+export interface ImportRowError {
+  row: number;
+  message: string;
+  fieldErrors?: Record<string, string>;
+}
+
+/** Parsed source rows */
+export interface ParsedImport {
+  rows: ImportRow[];
+  /** Rows that could not be parsed */
+  errors: ImportRowError[];
+  /** Column names in first-seen order */
+  columns: string[];
+}
+
+/** How source values are turned into field values */
+export interface CoercionOptions {
+  /** Separator between values of multi-select and multi-relation cells */
+  listSeparator: string;
+  /** Record IDs by display value, per relation field looked up */
+  lookups: Map<string, Map<string, string[]>>;
+  /** Display field used for each looked-up relation field */
+  lookupFields: Record<string, string>;
+}
+
+/** Outcome of sending rows to PocketBase */
+export interface ImportResult {
+  /** Created record IDs with their source rows */
+  created: { row: number; id: string }[];
+  /** Rows the server rejected */
+  failed: ImportRowError[];
+  /** Rows not sent because the import stopped early */
+  notSent: number;
+  /** Why the import stopped early */
+  aborted?: string;
+}
+
+/** Values read as true / false for bool fields */
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'on'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', 'off', ''];
+
+/** Display values per lookup query */
+const LOOKUP_CHUNK_SIZE = 50;
+
+/**
+ * Pick the source format from the file extension or the text itself
+ */
+export function detectFormat(path: string | undefined, text: string): ImportFormat {
+  const extension = path ? extname(path).toLowerCase() : '';
+  if (extension === '.csv' || extension === '.tsv') return 'csv';
+  if (extension === '.ndjson' || extension === '.jsonl') return 'ndjson';
+  if (extension === '.json') return 'json';
+
+  const start = text.trimStart();
+  if (start.startsWith('[')) return 'json';
+  if (start.startsWith('{')) return 'ndjson';
+  return 'csv';
+}
+
+/**
+ * Pick the default CSV delimiter from the file extension (tab for .tsv)
+ */
+export function detectDelimiter(path: string | undefined): string {
+  return path && extname(path).toLowerCase() === '.tsv' ? '\t' : ',';
+}
+
+/**
+ * Resolve an import file path and check it is allowed
+ *
+ * With an import directory configured, files must be inside it. Without one,
+ * any path is accepted over stdio, but files cannot be read over HTTP, where
+ * the caller is not on the server host.
+ * @throws ErrorResponse if the path is not allowed
+ */
+export function resolveImportPath(path: string, config: ImportConfig, transport: 'stdio' | 'http'): string {
+  if (!config.importDir) {
+    if (transport === 'http') {
+      throw createErrorResponse(
+        ErrorCodes.PERMISSION_DENIED,
+        'File imports are disabled over HTTP',
+        'Pass the data inline as text, or set POCKETBASE_MCP_IMPORT_DIR on the server'
+      );
+    }
+    return resolve(path);
+  }
+
+  const resolved = resolve(config.importDir, path);
+  const inside = relative(resolve(config.importDir), resolved);
+  if (inside === '' || inside.startsWith('..') || isAbsolute(inside)) {
+    throw createErrorResponse(
+      ErrorCodes.PERMISSION_DENIED,
+      `"${path}" is outside the import directory`,
+      `Import files must be in ${config.importDir} (POCKETBASE_MCP_IMPORT_DIR)`
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells, doubled quotes, CRLF)
+ * Blank lines are skipped.
+ * @returns Rows with the 1-based line each starts on
+ */
+export function parseCsv(text: string, delimiter = ','): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Throw the error for a source that cannot be read at all
+ */
+function invalidSource(message: string, suggestion: string): never {
+  throw createErrorResponse(ErrorCodes.VALIDATION_ERROR, message, suggestion);
+}
+
+/**
+ * Check for a plain object row
+ */
+function isRowObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse source text into rows keyed by column name
+ * @throws ErrorResponse if the text as a whole is unreadable (bad JSON, no CSV header)
+ */
+export function parseImport(text: string, format: ImportFormat, delimiter = ','): ParsedImport {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const columns = new Set<string>();
+
+  const addRow = (row: number, value: unknown) => {
+    if (!isRowObject(value)) {
+      errors.push({ row, message: 'Row is not an object' });
+      return;
+    }
+    Object.keys(value).forEach(key => columns.add(key));
+    rows.push({ row, values: value });
+  };
+
+  if (format === 'csv') {
+    const [header, ...body] = parseCsv(text, delimiter);
+    if (!header) invalidSource('No CSV header row found', 'The first line must name the columns');
+
+    const names = header.cells.map(name => name.trim());
+    const duplicate = names.find((name, i) => name === '' || names.indexOf(name) !== i);
+    if (duplicate !== undefined) {
+      invalidSource(
+        duplicate === '' ? 'CSV header has an empty column name' : `CSV header repeats column "${duplicate}"`,
+        'Give every column a unique name, or set delimiter if the file is not comma-separated'
+      );
+    }
+    names.forEach(name => columns.add(name));
+
+    body.forEach(({ line, cells }, i) => {
+      if (cells.length > names.length) {
+        errors.push({ row: i + 1, message: `Line ${line} has ${cells.length} cells but the header has ${names.length}` });
+        return;
+      }
+      rows.push({ row: i + 1, values: Object.fromEntries(names.map((name, j) => [name, cells[j] ?? ''])) });
+    });
+  } else if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      invalidSource(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`, 'Pass an array of objects, or use NDJSON with one object per line');
+    }
+    if (!Array.isArray(parsed)) invalidSource('JSON import must be an array of objects', 'Wrap the records in [...], or use NDJSON with one object per line');
+    parsed.forEach((value, i) => addRow(i + 1, value));
+  } else {
+    text.split(/\r?\n/).filter(line => line.trim() !== '').forEach((line, i) => {
+      try {
+        addRow(i + 1, JSON.parse(line));
+      } catch (error) {
+        errors.push({ row: i + 1, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+      }
+    });
+  }
+
+  return { rows, errors, columns: [...columns] };
+}
+
+/**
+ * Rename source columns to field names
+ * @param mapping - Source column to field name; null drops the column
+ * @returns Field names per column (dropped columns omitted)
+ */
+export function mapColumns(columns: string[], mapping: Record<string, string | null>): Map<string, string> {
+  const mapped = new Map<string, string>();
+  for (const column of columns) {
+    const field = column in mapping ? mapping[column] : column;
+    if (field) mapped.set(column, field);
+  }
+  return mapped;
+}
+
+/**
+ * Check the mapped columns against the collection schema
+ * @returns Columns that match no field (they are not imported)
+ * @throws ErrorResponse if the mapping or lookups name fields that do not exist
+ */
+export function checkColumns(
+  collection: CollectionModel,
+  mapped: Map<string, string>,
+  mapping: Record<string, string | null>,
+  lookupFields: Record<string, string>
+): string[] {
+  const fields = collection.fields ?? [];
+  const names = fields.map(f => f.name);
+  const accepts = (name: string) => names.includes(name) || (collection.type === 'auth' && AUTH_EXTRA_FIELDS.includes(name));
+
+  const fieldErrors: Record<string, string> = {};
+  const suggest = (name: string) => {
+    const match = closestMatch(name, names);
+    return match ? ` Did you mean "${match}"?` : '';
+  };
+  for (const [column, field] of Object.entries(mapping)) {
+    if (field && !accepts(field)) {
+      fieldErrors[`columns.${column}`] = `Unknown field "${field}".${suggest(field)}`;
+    }
+  }
+  for (const field of Object.keys(lookupFields)) {
+    const definition = fields.find(f => f.name === field);
+    if (definition?.type !== 'relation') {
+      fieldErrors[`lookup.${field}`] = definition ? `"${field}" is a ${definition.type} field, not a relation` : `Unknown field "${field}".${suggest(field)}`;
+    }
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      `Column mapping does not match the "${collection.name}" schema`,
+      `Available fields: ${names.join(', ')}`,
+      fieldErrors
+    );
+  }
+
+  return [...mapped].filter(([, field]) => !accepts(field)).map(([column]) => column);
+}
+
+/**
+ * Split a cell of a multi-value field into its values
+ */
+function splitList(value: unknown, separator: string): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string') return [value];
+  return value.split(separator).map(item => item.trim()).filter(item => item !== '');
+}
+
+/**
+ * Format a date the way PocketBase stores it
+ */
+function toPocketBaseDate(time: number): string {
+  return new Date(time).toISOString().replace('T', ' ');
+}
+
+/**
+ * Coerce one source value to a field's type
+ * @returns The value to send, or undefined to leave the field out
+ * @throws Error describing why the value cannot be converted
+ */
+function coerceValue(field: CollectionField, value: unknown, options: CoercionOptions): unknown {
+  if (value === null || value === undefined) return undefined;
+  const text = typeof value === 'string' ? value.trim() : value;
+  if (text === '' && field.type !== 'bool') return undefined;
+
+  const multiple = (field.maxSelect ?? 1) > 1;
+  switch (field.type) {
+    case 'bool': {
+      if (typeof text === 'boolean') return text;
+      const key = String(text).toLowerCase();
+      if (TRUE_VALUES.includes(key)) return true;
+      if (FALSE_VALUES.includes(key)) return false;
+      throw new Error(`Expected a boolean (true/false, yes/no, 1/0), got "${String(value)}"`);
+    }
+
+    case 'number': {
+      const number = typeof text === 'number' ? text : Number(String(text).replace(/[\s_]/g, ''));
+      if (!Number.isFinite(number)) throw new Error(`Expected a number, got "${String(value)}"`);
+      return number;
+    }
+
+    case 'date': {
+      const time = typeof text === 'number' ? text : Date.parse(String(text));
+      if (Number.isNaN(time)) throw new Error(`Expected a date (e.g. "2026-01-20" or "2026-01-20 10:30:00Z"), got "${String(value)}"`);
+      return toPocketBaseDate(time);
+    }
+
+    case 'select': {
+      const values = splitList(text, options.listSeparator).map(String);
+      return multiple ? values : values[0];
+    }
+
+    case 'relation': {
+      let values = splitList(text, options.listSeparator).map(String);
+      const lookup = options.lookups.get(field.name);
+      if (lookup) {
+        const displayField = options.lookupFields[field.name];
+        values = values.map(display => {
+          const ids = lookup.get(display) ?? [];
+          if (ids.length === 0) throw new Error(`No related record with ${displayField} "${display}"`);
+          if (ids.length > 1) throw new Error(`${ids.length} related records have ${displayField} "${display}"; use a unique display field`);
+          return ids[0];
+        });
+      }
+      return multiple ? values : values[0];
+    }
+
+    case 'json':
+      if (typeof text !== 'string') return text;
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new Error('Expected JSON (strings must be quoted)');
+      }
+
+    case 'file':
+      throw new Error('File fields cannot be imported; upload files with pocketbase_update_record afterwards');
+
+    case 'text':
+    case 'editor':
+    case 'email':
+    case 'url':
+      return typeof value === 'object' ? value : String(value);
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Turn a source row into record data and check it against the schema
+ * @param mapped - Field name per source column (from mapColumns)
+ * @returns The record data, or the row's errors
+ */
+export function coerceRow(
+  collection: CollectionModel,
+  row: ImportRow,
+  mapped: Map<string, string>,
+  options: CoercionOptions
+): { data: Record<string, unknown> } | { error: ImportRowError } {
+  const byName = new Map((collection.fields ?? []).map(f => [f.name, f]));
+  const data: Record<string, unknown> = {};
+  const fieldErrors: Record<string, string> = {};
+
+  for (const [column, value] of Object.entries(row.values)) {
+    const name = mapped.get(column);
+    if (!name) continue;
+
+    const field = byName.get(name);
+    if (!field) {
+      if (collection.type === 'auth' && AUTH_EXTRA_FIELDS.includes(name) && value !== '') data[name] = value;
+      continue;
+    }
+
+    try {
+      const coerced = coerceValue(field, value, options);
+      if (coerced !== undefined) data[name] = coerced;
+    } catch (error) {
+      fieldErrors[name] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  for (const [field, message] of Object.entries(validateRecordData(collection, data, { partial: false }))) {
+    fieldErrors[field] ??= message;
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { error: { row: row.row, message: 'Invalid values', fieldErrors } };
+  }
+  return { data };
+}
+
+/**
+ * Look up relation IDs by display value for every value in the rows
+ * @param lookupFields - Display field per relation field
+ * @returns Record IDs by display value, per relation field
+ */
+export async function resolveLookups(
+  pb: PocketBase,
+  collection: CollectionModel,
+  rows: ImportRow[],
+  mapped: Map<string, string>,
+  lookupFields: Record<string, string>,
+  listSeparator: string
+): Promise<Map<string, Map<string, string[]>>> {
+  const lookups = new Map<string, Map<string, string[]>>();
+
+  for (const [fieldName, displayField] of Object.entries(lookupFields)) {
+    const field = (collection.fields ?? []).find(f => f.name === fieldName);
+    const columns = [...mapped].filter(([, name]) => name === fieldName).map(([column]) => column);
+    if (!field || columns.length === 0) continue;
+
+    const wanted = new Set<string>();
+    for (const row of rows) {
+      for (const column of columns) {
+        splitList(row.values[column] ?? '', listSeparator).forEach(value => wanted.add(String(value)));
+      }
+    }
+
+    const ids = new Map<string, string[]>();
+    const values = [...wanted];
+    for (let i = 0; i < values.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = values.slice(i, i + LOOKUP_CHUNK_SIZE);
+      const filter = pb.filter(
+        chunk.map((_, j) => `${displayField} = {:v${j}}`).join(' || '),
+        Object.fromEntries(chunk.map((value, j) => [`v${j}`, value]))
+      );
+      const records = await pb.collection(field.collectionId).getFullList({ filter, fields: `id,${displayField}` });
+      for (const record of records) {
+        const key = String(record[displayField]);
+        ids.set(key, [...(ids.get(key) ?? []), record.id]);
+      }
+    }
+    lookups.set(fieldName, ids);
+  }
+
+  return lookups;
+}
+
+/**
+ * Create records through the batch API, continuing past rejected rows
+ *
+ * When the server rejects a row, its chunk is rolled back; the row is
+ * reported and the import resumes with the other rows of that chunk. Any
+ * other failure stops the import, and the rows not yet created are counted
+ * as not sent.
+ * @param onProgress - Called after each committed chunk with the rows handled so far
+ */
+export async function createRecords(
+  pb: PocketBase,
+  collection: string,
+  rows: { row: number; data: Record<string, unknown> }[],
+  chunkSize: number,
+  onProgress?: (handled: number, total: number) => Promise<void> | void
+): Promise<ImportResult> {
+  const result: ImportResult = { created: [], failed: [], notSent: 0 };
+  let pending = rows;
+
+  while (pending.length > 0) {
+    const handledBefore = rows.length - pending.length;
+    let run;
+    try {
+      run = await runBatch(
+        pb,
+        pending.map(({ data }) => ({ action: 'create' as const, collection, data })),
+        chunkSize,
+        (committed, total) => onProgress?.(handledBefore + committed, handledBefore + total)
+      );
+    } catch (error) {
+      // Connection or server problems: keep what was created and report the rest
+      if (result.created.length === 0 && result.failed.length === 0) throw error;
+      return { ...result, notSent: pending.length, aborted: error instanceof Error ? error.message : String(error) };
+    }
+
+    const batchRows = pending;
+    result.created.push(...run.results.map(r => ({ row: batchRows[r.index].row, id: r.id ?? '' })));
+    if (!run.failure) break;
+
+    const { failure } = run;
+    if (failure.aborted) {
+      return { ...result, notSent: pending.length - run.results.length, aborted: failure.message };
+    }
+    result.failed.push({
+      row: pending[failure.index].row,
+      message: failure.message,
+      ...(failure.fieldErrors && { fieldErrors: failure.fieldErrors }),
+    });
+    // Rows committed before the failed chunk stay; the rest of that chunk is retried
+    pending = [...pending.slice(run.results.length, failure.index), ...pending.slice(failure.index + 1)];
+  }
+
+  return result;
+}
@@ -0,0 +1,112 @@
+/**
+ * Pagination Service - Walk every page of a record list
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+
+/** Query options applied to every page */
+export interface PageQueryOptions {
+  filter?: string;
+  sort?: string;
+  fields?: string;
+  expand?: string;
+}
+
+/** Position of a fetched page */
+export interface PageInfo {
+  /** Page number (1-indexed) */
+  page: number;
+  /** Records fetched so far, including this page */
+  fetched: number;
+  /** Total matching records (from the first page) */
+  totalItems: number;
+}
+
+/** Outcome of walking all pages */
+export interface WalkResult {
+  /** Pages fetched */
+  pages: number;
+  /** Records fetched */
+  fetched: number;
+  /** Total matching records */
+  totalItems: number;
+  /** Whether the record cap stopped the walk early */
+  capped: boolean;
+}
+
+/**
+ * Fetch pages one by one until the list is exhausted or `maxRecords` is reached
+ *
+ * Only the first page counts the total; later pages use skipTotal.
+ *
+ * @param onPage - Receives each page's records (already cut to the cap)
+ */
+export async function walkRecords(
+  pb: PocketBase,
+  collection: string,
+  options: PageQueryOptions,
+  limits: { pageSize: number; maxRecords: number },
+  onPage: (items: RecordModel[], info: PageInfo) => Promise<void> | void
+): Promise<WalkResult> {
+  let page = 1;
+  let fetched = 0;
+  let totalItems = 0;
+
+  for (;;) {
+    const result = await pb.collection(collection).getList(page, limits.pageSize, {
+      ...options,
+      ...(page > 1 && { skipTotal: true }),
+    });
+    if (page === 1) {
+      totalItems = result.totalItems;
+    }
+
+    const items = result.items.slice(0, limits.maxRecords - fetched);
+    fetched += items.length;
+    await onPage(items, { page, fetched, totalItems });
+
+    const exhausted = result.items.length < limits.pageSize;
+    if (exhausted || fetched >= limits.maxRecords) {
+      return {
+        pages: page,
+        fetched,
+        totalItems,
+        capped: !exhausted && fetched < totalItems,
+      };
+    }
+    page++;
+  }
+}
+
+/**
+ * Write a result that is too large for a tool response to a JSON file
+ * @returns The file path
+ */
+export function spillToFile(dir: string, name: string, data: unknown): string {
+  mkdirSync(dir, { recursive: true });
+  const safeName = name.replace(/[^\w-]/g, '_');
+  const path = join(dir, `${safeName}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+  writeFileSync(path, JSON.stringify(data, null, 2));
+  return path;
+}
+
+/**
+ * Find how many leading items fit when rendered with `render`
+ * @returns The largest count whose rendering is at most `maxSize` characters
+ */
+export function fitItems<T>(items: T[], maxSize: number, render: (subset: T[]) => string): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (render(items.slice(0, mid)).length <= maxSize) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,279 @@
+/**
+ * Patch Service - Field modifiers and JSON Patch for record updates
+ *
+ * `field+`, `+field` and `field-` keys are sent to PocketBase as-is; they are
+ * only resolved locally to preview the resulting values. JSON Patch (RFC 6902)
+ * has no server support, so it is applied here to a fresh read of the field
+ * and the patched value is sent as a plain update.
+ */
+
+import { createErrorResponse } from './pocketbase.js';
+import { isEqualValue } from './diff.js';
+import { ErrorCodes } from '../constants.js';
+import type { JsonPatchOperation } from '../schemas/records.js';
+
+/** PocketBase field modifier */
+export type FieldModifier = 'append' | 'prepend' | 'remove';
+
+/** A data key split into field name and modifier */
+export interface ModifierKey {
+  field: string;
+  modifier?: FieldModifier;
+}
+
+/** Field types that accept the `+`/`-` modifiers */
+export const MODIFIABLE_TYPES = ['relation', 'select', 'file', 'number'];
+
+/**
+ * Split a data key such as "tags+" into its field name and modifier
+ */
+export function parseModifierKey(key: string): ModifierKey {
+  if (key.length > 1 && key.endsWith('+')) return { field: key.slice(0, -1), modifier: 'append' };
+  if (key.length > 1 && key.endsWith('-')) return { field: key.slice(0, -1), modifier: 'remove' };
+  if (key.length > 1 && key.startsWith('+')) return { field: key.slice(1), modifier: 'prepend' };
+  return { field: key };
+}
+
+/**
+ * Whether a payload uses any field modifier
+ */
+export function hasModifiers(data: Record<string, unknown>): boolean {
+  return Object.keys(data).some(key => parseModifierKey(key).modifier !== undefined);
+}
+
+/**
+ * Apply one modifier to a stored value
+ */
+function applyModifier(base: unknown, modifier: FieldModifier, value: unknown): unknown {
+  if (modifier !== 'prepend' && (typeof base === 'number' || (base === undefined && typeof value === 'number'))) {
+    const amount = Number(value);
+    return modifier === 'append' ? Number(base ?? 0) + amount : Number(base ?? 0) - amount;
+  }
+
+  const items = Array.isArray(value) ? value : [value];
+  if (Array.isArray(base)) {
+    if (modifier === 'remove') return base.filter(item => !items.includes(item));
+    return [...new Set(modifier === 'append' ? [...base, ...items] : [...items, ...base])];
+  }
+
+  // Single-value field: removing the stored value clears it, adding replaces it
+  if (modifier === 'remove') return items.includes(base) ? '' : base ?? '';
+  return items.length > 0 ? items[items.length - 1] : base;
+}
+
+/**
+ * Resolve modifier keys into the plain field values PocketBase will store
+ * @returns Plain values keyed by field name
+ */
+export function resolveModifiers(
+  current: Record<string, unknown>,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+  const modified: [ModifierKey, unknown][] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    const parsed = parseModifierKey(key);
+    if (parsed.modifier) {
+      modified.push([parsed, value]);
+    } else {
+      resolved[key] = value;
+    }
+  }
+
+  for (const [{ field, modifier }, value] of modified) {
+    const base = field in resolved ? resolved[field] : current[field];
+    resolved[field] = applyModifier(base, modifier as FieldModifier, value);
+  }
+
+  return resolved;
+}
+
+/**
+ * Check for a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into reference tokens
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer "${pointer}" (must be empty or start with "/")`);
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Parse an array index token
+ * @param max - Largest index allowed
+ */
+function arrayIndex(token: string, max: number, pointer: string): number {
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`Invalid array index "${token}" in "${pointer}"`);
+  }
+  const index = Number(token);
+  if (index > max) {
+    throw new Error(`Array index ${index} out of bounds in "${pointer}"`);
+  }
+  return index;
+}
+
+/**
+ * Read the value a pointer refers to
+ */
+function getAt(document: unknown, pointer: string): unknown {
+  let node = document;
+  for (const token of parsePointer(pointer)) {
+    if (Array.isArray(node)) {
+      node = node[arrayIndex(token, node.length - 1, pointer)];
+    } else if (isObject(node) && Object.hasOwn(node, token)) {
+      node = node[token];
+    } else {
+      throw new Error(`Path "${pointer}" does not exist`);
+    }
+  }
+  return node;
+}
+
+/**
+ * Find the container holding the last token of a pointer
+ */
+function parentOf(document: unknown, pointer: string): { parent: unknown[] | Record<string, unknown>; key: string } {
+  const tokens = parsePointer(pointer);
+  const parentPointer = pointer.slice(0, pointer.lastIndexOf('/'));
+  const parent = getAt(document, parentPointer);
+  if (!Array.isArray(parent) && !isObject(parent)) {
+    throw new Error(`Path "${parentPointer || '/'}" is not an object or array`);
+  }
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+/**
+ * Insert or set a value (RFC 6902 "add")
+ * @returns The document (replaced when the pointer is the root)
+ */
+function addAt(document: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === '') return value;
+
+  const { parent, key } = parentOf(document, pointer);
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : arrayIndex(key, parent.length, pointer);
+    parent.splice(index, 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+/**
+ * Delete an existing value (RFC 6902 "remove")
+ */
+function removeAt(document: unknown, pointer: string): unknown {
+  if (pointer === '') {
+    throw new Error('Cannot remove the whole document; replace it instead');
+  }
+
+  const { parent, key } = parentOf(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(key, parent.length - 1, pointer), 1);
+  } else if (Object.hasOwn(parent, key)) {
+    delete parent[key];
+  } else {
+    throw new Error(`Path "${pointer}" does not exist`);
+  }
+  return document;
+}
+
+/**
+ * Apply a JSON Patch (RFC 6902) to a copy of a document
+ * @returns The patched document
+ * @throws Error naming the failing operation; the input is never modified
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let result: unknown = document === undefined ? null : JSON.parse(JSON.stringify(document));
+
+  for (const [index, operation] of operations.entries()) {
+    const { op, path } = operation;
+    try {
+      if ((op === 'add' || op === 'replace' || op === 'test') && !('value' in operation)) {
+        throw new Error('Missing "value"');
+      }
+      if ((op === 'move' || op === 'copy') && operation.from === undefined) {
+        throw new Error('Missing "from"');
+      }
+
+      switch (op) {
+        case 'add':
+          result = addAt(result, path, operation.value);
+          break;
+        case 'remove':
+          result = removeAt(result, path);
+          break;
+        case 'replace':
+          getAt(result, path);
+          result = path === '' ? operation.value : addAt(removeAt(result, path), path, operation.value);
+          break;
+        case 'move': {
+          const from = operation.from as string;
+          if (path.startsWith(`${from}/`)) {
+            throw new Error(`Cannot move "${from}" into its own child`);
+          }
+          const value = getAt(result, from);
+          result = addAt(removeAt(result, from), path, value);
+          break;
+        }
+        case 'copy': {
+          const value = JSON.parse(JSON.stringify(getAt(result, operation.from as string) ?? null));
+          result = addAt(result, path, value);
+          break;
+        }
+        case 'test':
+          if (!isEqualValue(getAt(result, path), operation.value)) {
+            throw new Error(`Test failed: value at "${path}" is ${JSON.stringify(getAt(result, path))}`);
+          }
+          break;
+      }
+    } catch (error) {
+      throw new Error(`Operation ${index} (${op} "${path}"): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply JSON Patches to fields of the current record
+ * @param patches - Operations keyed by json field name
+ * @returns Patched values keyed by field name
+ * @throws ErrorResponse listing every field whose patch failed
+ */
+export function patchFields(
+  current: Record<string, unknown>,
+  patches: Record<string, JsonPatchOperation[]>
+): Record<string, unknown> {
+  const patched: Record<string, unknown> = {};
+  const fieldErrors: Record<string, string> = {};
+
+  for (const [field, operations] of Object.entries(patches)) {
+    try {
+      patched[field] = applyJsonPatch(current[field], operations);
+    } catch (error) {
+      fieldErrors[field] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      'JSON Patch could not be applied',
+      'Check the paths against the current field value; nothing was written',
+      fieldErrors
+    );
+  }
+
+  return patched;
+}
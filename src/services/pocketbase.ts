@@ -3,44 +3,160 @@
  */
 
 import PocketBase, { ClientResponseError } from 'pocketbase';
+import { URL } from 'node:url';
+import { ErrorCode as McpErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { ErrorCodes, type ErrorCode } from '../constants.js';
-import type { AuthState, ErrorResponse } from '../types.js';
+import { getInstancesConfig, isReadOnlyMode, resetConfig } from '../config.js';
+import type { AuthState, ErrorResponse, InstanceProfile } from '../types.js';
 
-/** Singleton PocketBase client instance */
-let pbClient: PocketBase | null = null;
+/** Client key used when the transport has no session ID (stdio) */
+const DEFAULT_SESSION_KEY = 'default';
+
+/** JSON-RPC error code for unknown resources (MCP specification) */
+const RESOURCE_NOT_FOUND = -32002;
+
+/** Request paths that may still be sent with POST to a read-only instance */
+const READ_ONLY_ALLOWED_PATHS = [/\/auth-with-password$/, /\/auth-refresh$/];
+
+/**
+ * PocketBase clients keyed by MCP session ID, then by instance profile name,
+ * so each session has its own authStore per instance
+ */
+const clients = new Map<string, Map<string, PocketBase>>();
 
 /**
- * Get or create the PocketBase client singleton
- * @throws Error if POCKETBASE_URL is not set
+ * Resolve an instance profile by name
+ * @param name - Profile name (undefined for the default instance)
+ * @throws Error if no instance is configured
+ * @throws ErrorResponse if the named instance does not exist
  */
-export function getClient(): PocketBase {
-  if (!pbClient) {
-    const url = process.env.POCKETBASE_URL;
-    if (!url) {
-      throw new Error('POCKETBASE_URL environment variable is required');
+export function getInstance(name?: string): InstanceProfile {
+  const config = getInstancesConfig();
+  const profile = config.instances[name ?? config.defaultInstance];
+  
+  if (!profile) {
+    if (name === undefined) {
+      throw new Error('POCKETBASE_URL environment variable (or POCKETBASE_MCP_CONFIG file) is required');
     }
-    pbClient = new PocketBase(url);
+    throw createErrorResponse(
+      ErrorCodes.NOT_FOUND,
+      `Unknown PocketBase instance "${name}"`,
+      'Use pocketbase_list_instances to see configured instances'
+    );
+  }
+  return profile;
+}
+
+/**
+ * Get or create the PocketBase client for an MCP session and instance
+ * @param sessionId - MCP session ID (undefined for stdio)
+ * @param instance - Instance profile name (undefined for the default instance)
+ * @throws Error if no instance is configured
+ */
+export function getClient(sessionId?: string, instance?: string): PocketBase {
+  const profile = getInstance(instance);
+  const key = sessionId ?? DEFAULT_SESSION_KEY;
+  
+  let sessionClients = clients.get(key);
+  if (!sessionClients) {
+    sessionClients = new Map();
+    clients.set(key, sessionClients);
+  }
+  
+  let pb = sessionClients.get(profile.name);
+  if (!pb) {
+    pb = new PocketBase(profile.url);
     // Disable autoCancel to allow simultaneous requests
-    pbClient.autoCancellation(false);
+    pb.autoCancellation(false);
+    
+    // Refuse writes on read-only instances, whatever tool sends them
+    if (isReadOnly(profile.name)) {
+      const name = profile.name;
+      pb.beforeSend = (url, options) => {
+        const method = (options.method ?? 'GET').toUpperCase();
+        const path = new URL(url).pathname;
+        if (method !== 'GET' && !(method === 'POST' && READ_ONLY_ALLOWED_PATHS.some(re => re.test(path)))) {
+          throw readOnlyError(name);
+        }
+        return { url, options };
+      };
+    }
+    
+    // Apply the profile's credentials source, if any
+    const token = profile.tokenEnv ? process.env[profile.tokenEnv] : undefined;
+    if (token) {
+      pb.authStore.save(token);
+    }
+    
+    sessionClients.set(profile.name, pb);
   }
-  return pbClient;
+  return pb;
+}
+
+/**
+ * Check whether an instance is read-only (globally or by profile)
+ * @param instance - Instance profile name (undefined for the default instance)
+ */
+export function isReadOnly(instance?: string): boolean {
+  return isReadOnlyMode() || getInstance(instance).readOnly;
 }
 
 /**
- * Reset the PocketBase client (useful for testing)
+ * Create the error returned when writing to a read-only instance
+ */
+function readOnlyError(instance: string): ErrorResponse {
+  return createErrorResponse(
+    ErrorCodes.PERMISSION_DENIED,
+    `PocketBase instance "${instance}" is read-only`,
+    'Mutating operations are disabled by POCKETBASE_MCP_READONLY or the instance profile'
+  );
+}
+
+/**
+ * Check that an instance accepts mutating operations
+ * @param instance - Instance profile name (undefined for the default instance)
+ * @throws ErrorResponse if the instance is read-only
+ */
+export function requireWritable(instance?: string): void {
+  if (isReadOnly(instance)) {
+    throw readOnlyError(getInstance(instance).name);
+  }
+}
+
+/**
+ * Release the PocketBase clients of a session, clearing their auth state
+ * @param sessionId - MCP session ID (undefined for stdio)
+ */
+export function releaseClient(sessionId?: string): void {
+  const key = sessionId ?? DEFAULT_SESSION_KEY;
+  const sessionClients = clients.get(key);
+  if (sessionClients) {
+    for (const pb of sessionClients.values()) {
+      pb.cancelAllRequests();
+      pb.authStore.clear();
+    }
+    clients.delete(key);
+  }
+}
+
+/**
+ * Reset all PocketBase clients and cached configuration (useful for testing)
  */
 export function resetClient(): void {
-  if (pbClient) {
-    pbClient.authStore.clear();
+  for (const sessionClients of clients.values()) {
+    for (const pb of sessionClients.values()) {
+      pb.authStore.clear();
+    }
   }
-  pbClient = null;
+  clients.clear();
+  resetConfig();
 }
 
 /**
- * Get current authentication state
+ * Get current authentication state of a session
  */
-export function getAuthState(): AuthState {
-  const pb = getClient();
+export function getAuthState(sessionId?: string, instance?: string): AuthState {
+  const pb = getClient(sessionId, instance);
   const record = pb.authStore.record;
   
   // In PocketBase v0.22+, use isSuperuser instead of deprecated isAdmin
@@ -61,11 +177,11 @@ export function getAuthState(): AuthState {
 }
 
 /**
- * Check if current auth is admin/superuser
+ * Check if the session's current auth is admin/superuser
  * @throws ErrorResponse if not authenticated as admin
  */
-export function requireAdminAuth(): void {
-  const pb = getClient();
+export function requireAdminAuth(sessionId?: string, instance?: string): void {
+  const pb = getClient(sessionId, instance);
   
   // In PocketBase v0.22+, use isSuperuser instead of deprecated isAdmin
   if (!pb.authStore.isSuperuser) {
@@ -77,6 +193,38 @@ export function requireAdminAuth(): void {
   }
 }
 
+/** A relation field that references a collection */
+export interface RelationReference {
+  /** Name of the collection holding the relation field */
+  collection: string;
+  /** Relation field name */
+  field: string;
+  /** Whether deleting the referenced record deletes the referencing record */
+  cascadeDelete: boolean;
+}
+
+/**
+ * Find all relation fields (in any collection) that point to a collection
+ * Requires admin authentication.
+ */
+export async function findRelationReferences(pb: PocketBase, collectionId: string): Promise<RelationReference[]> {
+  const collections = await pb.collections.getFullList();
+  const references: RelationReference[] = [];
+  
+  for (const collection of collections) {
+    for (const field of collection.fields ?? []) {
+      if (field.type === 'relation' && field.collectionId === collectionId) {
+        references.push({
+          collection: collection.name,
+          field: field.name,
+          cascadeDelete: Boolean(field.cascadeDelete),
+        });
+      }
+    }
+  }
+  return references;
+}
+
 /**
  * Create a structured error response
  */
@@ -84,7 +232,8 @@ export function createErrorResponse(
   code: ErrorCode,
   message: string,
   suggestion?: string,
-  fieldErrors?: Record<string, string>
+  fieldErrors?: Record<string, string>,
+  current?: Record<string, unknown>
 ): ErrorResponse {
   return {
     error: {
@@ -92,6 +241,7 @@ export function createErrorResponse(
       message,
       ...(suggestion && { suggestion }),
       ...(fieldErrors && { fieldErrors }),
+      ...(current && { current }),
     },
   };
 }
@@ -104,8 +254,8 @@ export function handlePocketBaseError(error: unknown): ErrorResponse {
   if (error instanceof TypeError && error.message.includes('fetch')) {
     return createErrorResponse(
       ErrorCodes.CONNECTION_ERROR,
-      `Cannot connect to PocketBase server: ${process.env.POCKETBASE_URL}`,
-      'Check that PocketBase is running and POCKETBASE_URL is correct'
+      'Cannot connect to PocketBase server',
+      'Check that PocketBase is running and the instance URL (POCKETBASE_URL or config profile) is correct'
     );
   }
   
@@ -195,3 +345,18 @@ export function isErrorResponse(value: unknown): value is ErrorResponse {
     'message' in (value as ErrorResponse).error
   );
 }
+
+/**
+ * Convert a PocketBase error to a JSON-RPC error for non-tool requests
+ * (resources, prompts), which cannot return an isError result
+ */
+export function toMcpError(error: unknown): McpError {
+  const response = handlePocketBaseError(error);
+  const code = response.error.code === ErrorCodes.NOT_FOUND
+    ? RESOURCE_NOT_FOUND
+    : response.error.code === ErrorCodes.VALIDATION_ERROR
+      ? McpErrorCode.InvalidParams
+      : McpErrorCode.InternalError;
+  
+  return new McpError(code, `${response.error.code}: ${response.error.message}`, response.error);
+}
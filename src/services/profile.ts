@@ -0,0 +1,155 @@
+/**
+ * Profile Service - Per-field value statistics over streamed records
+ */
+
+import type { CollectionField } from 'pocketbase';
+import { isPresent, compareValues } from './aggregate.js';
+
+/** Field types whose values are compared as numbers */
+const NUMERIC_TYPES = ['number'];
+
+/** Field types whose values are compared as dates */
+const DATE_TYPES = ['date', 'autodate'];
+
+/** Field types whose values get string length statistics */
+const STRING_TYPES = ['text', 'email', 'url', 'editor'];
+
+/** Field types never profiled (values are not returned by the API) */
+const SKIPPED_TYPES = ['password'];
+
+/** Longest value shown in top-N lists */
+const MAX_VALUE_LENGTH = 100;
+
+/** Running statistics of one field */
+export interface FieldProfileState {
+  name: string;
+  type: string;
+  empty: number;
+  /** Occurrences per serialized value (list fields count each item) */
+  counts: Map<string, number>;
+  min?: unknown;
+  max?: unknown;
+  /** Numeric sum, for the average */
+  sum: number;
+  /** Present numeric values / strings seen */
+  measured: number;
+  minLength?: number;
+  maxLength?: number;
+  totalLength: number;
+}
+
+/** Statistics reported for one field */
+export interface FieldProfile {
+  name: string;
+  type: string;
+  /** Records where the field is null, empty or missing */
+  empty: number;
+  /** empty / scanned */
+  emptyRate: number;
+  /** Distinct non-empty values */
+  distinct: number;
+  /** Most frequent values */
+  top: { value: unknown; count: number }[];
+  min?: unknown;
+  max?: unknown;
+  avg?: number;
+  length?: { min: number; max: number; avg: number };
+}
+
+/**
+ * Start profiles for the given schema fields (password fields are skipped)
+ */
+export function createFieldProfiles(fields: Pick<CollectionField, 'name' | 'type'>[]): FieldProfileState[] {
+  return fields
+    .filter(field => !SKIPPED_TYPES.includes(field.type))
+    .map(field => ({ name: field.name, type: field.type, empty: 0, counts: new Map(), sum: 0, measured: 0, totalLength: 0 }));
+}
+
+/**
+ * Fold a page of records into the profiles
+ */
+export function profileRecords(profiles: FieldProfileState[], records: Record<string, unknown>[]): void {
+  for (const record of records) {
+    for (const profile of profiles) {
+      const value = record[profile.name];
+      if (!isPresent(value)) {
+        profile.empty++;
+        continue;
+      }
+
+      for (const item of Array.isArray(value) ? value : [value]) {
+        const key = JSON.stringify(item);
+        profile.counts.set(key, (profile.counts.get(key) ?? 0) + 1);
+      }
+
+      if (NUMERIC_TYPES.includes(profile.type) && typeof value === 'number') {
+        profile.sum += value;
+        profile.measured++;
+      }
+      if (NUMERIC_TYPES.includes(profile.type) || DATE_TYPES.includes(profile.type)) {
+        if (profile.min === undefined || compareValues(value, profile.min) < 0) profile.min = value;
+        if (profile.max === undefined || compareValues(value, profile.max) > 0) profile.max = value;
+      }
+      if (STRING_TYPES.includes(profile.type) && typeof value === 'string') {
+        profile.minLength = Math.min(profile.minLength ?? value.length, value.length);
+        profile.maxLength = Math.max(profile.maxLength ?? value.length, value.length);
+        profile.totalLength += value.length;
+        profile.measured++;
+      }
+    }
+  }
+}
+
+/**
+ * Shorten long values for display
+ */
+function displayValue(value: unknown): unknown {
+  if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_VALUE_LENGTH)}…`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const json = JSON.stringify(value);
+    return json.length > MAX_VALUE_LENGTH ? `${json.slice(0, MAX_VALUE_LENGTH)}…` : value;
+  }
+  return value;
+}
+
+/**
+ * Round a ratio or average for display
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Turn the running statistics into the reported profiles
+ * @param scanned - Records scanned
+ * @param topN - How many of the most frequent values to list per field
+ */
+export function summarizeProfiles(profiles: FieldProfileState[], scanned: number, topN: number): FieldProfile[] {
+  return profiles.map(profile => {
+    const top = [...profile.counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, topN)
+      .map(([key, count]) => ({ value: displayValue(JSON.parse(key)), count }));
+
+    const isString = STRING_TYPES.includes(profile.type);
+    return {
+      name: profile.name,
+      type: profile.type,
+      empty: profile.empty,
+      emptyRate: scanned > 0 ? round(profile.empty / scanned) : 0,
+      distinct: profile.counts.size,
+      top,
+      ...(profile.min !== undefined && { min: profile.min, max: profile.max }),
+      ...(!isString && profile.measured > 0 && { avg: round(profile.sum / profile.measured) }),
+      ...(isString && profile.measured > 0 && {
+        length: {
+          min: profile.minLength ?? 0,
+          max: profile.maxLength ?? 0,
+          avg: round(profile.totalLength / profile.measured),
+        },
+      }),
+    };
+  });
+}
@@ -0,0 +1,33 @@
+/**
+ * Progress Service - MCP progress notifications for long-running tools
+ */
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/** Request context passed to tool handlers */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Send a progress notification, if the client asked for progress
+ * (no-op when the request carries no progress token)
+ */
+export async function reportProgress(
+  extra: ToolExtra,
+  progress: number,
+  total?: number,
+  message?: string
+): Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return;
+
+  await extra.sendNotification({
+    method: 'notifications/progress',
+    params: {
+      progressToken,
+      progress,
+      ...(total !== undefined && { total }),
+      ...(message && { message }),
+    },
+  });
+}
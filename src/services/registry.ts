@@ -0,0 +1,82 @@
+/**
+ * Tool Registry - Registration-time tool filtering
+ */
+
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getInstancesConfig, getToolFilterConfig, isReadOnlyMode } from '../config.js';
+import { MUTATING_TOOLS } from '../constants.js';
+
+/** Names of the tools left enabled on each server */
+const activeTools = new WeakMap<McpServer, string[]>();
+
+/**
+ * Convert a glob pattern (* and ? wildcards) to an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(c => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a tool name matches a glob pattern (e.g. "pocketbase_*_backup")
+ */
+export function matchesGlob(name: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(name);
+}
+
+/**
+ * Check whether mutating tools should be hidden: read-only mode is enabled,
+ * or every configured instance profile is read-only
+ */
+function hideMutatingTools(): boolean {
+  const profiles = Object.values(getInstancesConfig().instances);
+  return isReadOnlyMode() || (profiles.length > 0 && profiles.every(p => p.readOnly));
+}
+
+/**
+ * Check whether a tool should be registered
+ * 
+ * A tool is enabled when it matches an include pattern (or no include
+ * patterns are configured), matches no exclude pattern, and is not a
+ * mutating tool in read-only mode.
+ */
+export function isToolEnabled(name: string): boolean {
+  if (hideMutatingTools() && MUTATING_TOOLS.includes(name)) {
+    return false;
+  }
+  
+  const { include, exclude } = getToolFilterConfig();
+  if (include.length > 0 && !include.some(p => matchesGlob(name, p))) {
+    return false;
+  }
+  return !exclude.some(p => matchesGlob(name, p));
+}
+
+/**
+ * Intercept tool registration so that only enabled tools are exposed
+ */
+export function filterTools(server: McpServer, isEnabled: (name: string) => boolean = isToolEnabled): void {
+  const register = server.tool.bind(server) as (name: string, ...rest: unknown[]) => RegisteredTool;
+  const enabled: string[] = [];
+  activeTools.set(server, enabled);
+  
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    const tool = register(name, ...rest);
+    if (isEnabled(name)) {
+      enabled.push(name);
+    } else {
+      tool.remove();
+    }
+    return tool;
+  }) as McpServer['tool'];
+}
+
+/**
+ * Get the names of the tools enabled on a server
+ */
+export function getActiveTools(server: McpServer): string[] {
+  return [...(activeTools.get(server) ?? [])];
+}
@@ -0,0 +1,451 @@
+/**
+ * Validation Service - Check record payloads against live collection schemas
+ */
+
+import { URL } from 'node:url';
+import type PocketBase from 'pocketbase';
+import type { CollectionField, CollectionModel } from 'pocketbase';
+import { parseModifierKey, MODIFIABLE_TYPES, type FieldModifier } from './patch.js';
+import { createErrorResponse } from './pocketbase.js';
+import { closestMatch } from './completion.js';
+import { ErrorCodes } from '../constants.js';
+
+/** Fields accepted on auth collections that are not part of the schema */
+export const AUTH_EXTRA_FIELDS = ['password', 'passwordConfirm', 'oldPassword'];
+
+/** Loose email shape; the server applies the full check */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Characters allowed in record IDs */
+const RECORD_ID_PATTERN = /^[\w-]+$/;
+
+/** Largest number of allowed values listed in a suggestion */
+const MAX_LISTED_VALUES = 10;
+
+/** Note reported when the caller cannot read collection schemas */
+const SCHEMA_UNAVAILABLE_NOTE = 'Schema validation skipped: admin authentication is required to read the collection schema';
+
+/** Options for record payload validation */
+export interface RecordValidationOptions {
+  /** Partial update: missing required fields are not reported */
+  partial: boolean;
+}
+
+/** Result of checking a payload against the live schema */
+export interface RecordValidationReport {
+  /** Whether the schema could be checked */
+  checked: boolean;
+  /** Whether no problems were found */
+  valid: boolean;
+  /** Problems keyed by field name */
+  fieldErrors?: Record<string, string>;
+  /** Why the check was skipped */
+  note?: string;
+}
+
+/**
+ * Check whether a field is filled in by PocketBase when not provided
+ */
+function isAutoFilled(field: CollectionField): boolean {
+  return field.type === 'autodate' || (field.type === 'text' && Boolean(field.autogeneratePattern));
+}
+
+/**
+ * Check whether a value counts as empty for a required field
+ */
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Check whether a value is a string, number or boolean
+ */
+function isScalar(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Check a single value against its field type
+ * 
+ * Follows PocketBase's casting: text-like fields take any scalar as a
+ * string, and bool fields take 0/1 as well as true/false.
+ * @returns An error message, or null when the value is acceptable
+ */
+function checkFieldType(field: CollectionField, value: unknown): string | null {
+  if (value === null) return null;
+
+  switch (field.type) {
+    case 'text':
+    case 'email':
+    case 'url':
+    case 'editor':
+      return isScalar(value) ? null : `Expected a string for ${field.type} field`;
+
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) return null;
+      if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) return null;
+      return 'Expected a number';
+
+    case 'bool':
+      return typeof value === 'boolean' || [0, 1, 'true', 'false', '0', '1'].includes(value as string | number)
+        ? null
+        : 'Expected a boolean (true/false or 1/0)';
+
+    case 'date':
+    case 'autodate':
+      return typeof value === 'string' && (value === '' || !Number.isNaN(Date.parse(value)))
+        ? null
+        : 'Expected a date string (e.g. "2026-01-20 10:30:00.000Z")';
+
+    case 'select':
+    case 'relation': {
+      const values = Array.isArray(value) ? value : [value];
+      return values.every(v => typeof v === 'string')
+        ? null
+        : `Expected a string or array of strings for ${field.type} field`;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * List allowed values for a suggestion, shortened when there are many
+ */
+function listValues(values: string[]): string {
+  const listed = values.slice(0, MAX_LISTED_VALUES).join(', ');
+  return values.length > MAX_LISTED_VALUES ? `${listed}, ... (${values.length} total)` : listed;
+}
+
+/**
+ * Get the host of a URL, accepting values without a scheme
+ * @returns The lowercase host name, or null when the value is not a URL
+ */
+function urlHost(value: string): string | null {
+  for (const candidate of [value, `https://${value}`]) {
+    try {
+      const url = new URL(candidate);
+      if (url.hostname.includes('.') || url.hostname === 'localhost') return url.hostname.toLowerCase();
+    } catch {
+      // Try the next form
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a domain against a field's onlyDomains / exceptDomains lists
+ * @returns An error message, or null when the domain is allowed
+ */
+function checkDomain(field: CollectionField, domain: string): string | null {
+  const only: string[] = field.onlyDomains ?? [];
+  const except: string[] = field.exceptDomains ?? [];
+  if (only.length > 0 && !only.includes(domain)) {
+    return `Domain "${domain}" is not allowed. Allowed: ${listValues(only)}`;
+  }
+  if (except.includes(domain)) {
+    return `Domain "${domain}" is not allowed`;
+  }
+  return null;
+}
+
+/**
+ * Check a value against the field's constraints (values, ranges, formats)
+ * 
+ * Runs after the type check passed. Empty values are left to the required
+ * check, as PocketBase does.
+ * @param listChange - The value is added to or removed from a list by a modifier,
+ *   so the number of values is not checked
+ * @returns An error message with a fix suggestion, or null when the value is acceptable
+ */
+function checkFieldConstraints(field: CollectionField, value: unknown, listChange = false): string | null {
+  if (isEmptyValue(value)) return null;
+
+  switch (field.type) {
+    case 'text':
+    case 'editor': {
+      const text = String(value);
+      if (field.min > 0 && text.length < field.min) {
+        return `Too short: ${text.length} characters, at least ${field.min} required`;
+      }
+      if (field.max > 0 && text.length > field.max) {
+        return `Too long: ${text.length} characters, at most ${field.max} allowed`;
+      }
+      if (field.pattern) {
+        let pattern: RegExp | null = null;
+        try {
+          pattern = new RegExp(field.pattern);
+        } catch {
+          // Server-side (Go) syntax JavaScript cannot parse; leave it to PocketBase
+        }
+        if (pattern && !pattern.test(text)) {
+          return `Does not match the required pattern ${field.pattern}; change the value to fit it`;
+        }
+      }
+      return null;
+    }
+
+    case 'number': {
+      const number = Number(value);
+      if (field.onlyInt && !Number.isInteger(number)) {
+        return `Must be a whole number (e.g. ${Math.round(number)})`;
+      }
+      if (!listChange && typeof field.min === 'number' && number < field.min) {
+        return `Must be at least ${field.min}`;
+      }
+      if (!listChange && typeof field.max === 'number' && number > field.max) {
+        return `Must be at most ${field.max}`;
+      }
+      return null;
+    }
+
+    case 'email': {
+      const email = String(value);
+      if (!EMAIL_PATTERN.test(email)) {
+        return 'Invalid email address (e.g. "name@example.com")';
+      }
+      return checkDomain(field, email.slice(email.lastIndexOf('@') + 1).toLowerCase());
+    }
+
+    case 'url': {
+      const host = urlHost(String(value));
+      return host ? checkDomain(field, host) : 'Invalid URL (e.g. "https://example.com/page")';
+    }
+
+    case 'select':
+    case 'relation': {
+      const values = Array.isArray(value) ? value as string[] : [value as string];
+      const maxSelect = Math.max(field.maxSelect ?? 1, 1);
+      if (!listChange && values.length > maxSelect) {
+        return maxSelect === 1
+          ? 'Only one value allowed; pass a single string'
+          : `Too many values: ${values.length}, at most ${maxSelect} allowed`;
+      }
+
+      if (field.type === 'select') {
+        const allowed: string[] = field.values ?? [];
+        const invalid = values.filter(v => !allowed.includes(v));
+        if (invalid.length > 0) {
+          const match = closestMatch(invalid[0], allowed);
+          return `Not an allowed value: ${invalid.map(v => `"${v}"`).join(', ')}.${match ? ` Did you mean "${match}"?` : ''} Allowed: ${listValues(allowed)}`;
+        }
+        return null;
+      }
+
+      const invalid = values.filter(v => !RECORD_ID_PATTERN.test(v));
+      if (invalid.length > 0) {
+        return `Not a record ID: ${invalid.map(v => `"${v}"`).join(', ')}. Relation fields take record IDs; look one up with pocketbase_find_first_record`;
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check a `field+` / `+field` / `field-` modifier against its field type
+ * @returns An error message, or null when the modifier is acceptable
+ */
+function checkModifier(field: CollectionField, modifier: FieldModifier, value: unknown): string | null {
+  if (!MODIFIABLE_TYPES.includes(field.type)) {
+    return `Modifiers are not supported on ${field.type} fields`;
+  }
+  if (field.type === 'number' && modifier === 'prepend') {
+    return 'Number fields support "field+" and "field-" only';
+  }
+  if (field.type === 'file') return null;
+  return checkFieldType(field, value) ?? checkFieldConstraints(field, value, true);
+}
+
+/**
+ * Validate a record payload against a collection's field definitions
+ * @returns Field errors keyed by field name (empty when valid)
+ */
+export function validateRecordData(
+  collection: CollectionModel,
+  data: Record<string, unknown>,
+  options: RecordValidationOptions
+): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  const fields = collection.fields ?? [];
+  const byName = new Map(fields.map(f => [f.name, f]));
+
+  for (const [key, value] of Object.entries(data)) {
+    const { field: name, modifier } = parseModifierKey(key);
+    const field = byName.get(name);
+
+    if (!field) {
+      if (collection.type === 'auth' && AUTH_EXTRA_FIELDS.includes(key)) continue;
+      const match = closestMatch(name, fields.map(f => f.name));
+      fieldErrors[key] = `Unknown field for collection "${collection.name}"${match ? `. Did you mean "${match}"?` : ''}`;
+      continue;
+    }
+
+    if (!modifier && field.required && !isAutoFilled(field) && isEmptyValue(value)) {
+      fieldErrors[key] = 'Required field cannot be empty';
+      continue;
+    }
+
+    const error = modifier
+      ? checkModifier(field, modifier, value)
+      : checkFieldType(field, value) ?? checkFieldConstraints(field, value);
+    if (error) {
+      fieldErrors[key] = error;
+    }
+  }
+
+  if (!options.partial) {
+    // `field+` / `+field` keys supply a value too, e.g. a create with only "tags+"
+    const supplied = new Set(Object.entries(data)
+      .filter(([key, value]) => parseModifierKey(key).modifier !== 'remove' && !isEmptyValue(value))
+      .map(([key]) => parseModifierKey(key).field));
+    for (const field of fields) {
+      if (field.required && !isAutoFilled(field) && !supplied.has(field.name) && !fieldErrors[field.name]) {
+        fieldErrors[field.name] = 'Missing required value';
+      }
+    }
+  }
+
+  return fieldErrors;
+}
+
+/**
+ * Fetch a collection's live schema and validate a record payload against it
+ * 
+ * Reading collection schemas requires admin authentication; without it the
+ * check is reported as skipped rather than failed.
+ */
+export async function checkRecordPayload(
+  pb: PocketBase,
+  collectionName: string,
+  data: Record<string, unknown>,
+  options: RecordValidationOptions
+): Promise<RecordValidationReport> {
+  if (!pb.authStore.isSuperuser) {
+    return {
+      checked: false,
+      valid: true,
+      note: SCHEMA_UNAVAILABLE_NOTE,
+    };
+  }
+
+  const collection = await pb.collections.getOne(collectionName);
+  const fieldErrors = validateRecordData(collection, data, options);
+  const valid = Object.keys(fieldErrors).length === 0;
+
+  return {
+    checked: true,
+    valid,
+    ...(!valid && { fieldErrors }),
+  };
+}
+
+/**
+ * Validate a record payload against the live schema before sending it
+ * 
+ * Does nothing when the schema cannot be read (no admin auth); PocketBase
+ * still validates the request then.
+ * @throws ErrorResponse listing every problem in fieldErrors
+ */
+export async function requireValidPayload(
+  pb: PocketBase,
+  collectionName: string,
+  data: Record<string, unknown>,
+  options: RecordValidationOptions
+): Promise<void> {
+  const report = await checkRecordPayload(pb, collectionName, data, options);
+  if (!report.valid) {
+    const count = Object.keys(report.fieldErrors ?? {}).length;
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      `Data does not match the "${collectionName}" schema (${count} problem${count === 1 ? '' : 's'})`,
+      'Fix the listed fields and retry; nothing was sent to PocketBase',
+      report.fieldErrors
+    );
+  }
+}
+
+/**
+ * Check that the fields targeted by JSON Patch are json fields
+ * 
+ * Does nothing when the schema cannot be read (no admin auth).
+ * @throws ErrorResponse listing every field that is not a json field
+ */
+export async function requireJsonFields(
+  pb: PocketBase,
+  collectionName: string,
+  fieldNames: string[]
+): Promise<void> {
+  if (!pb.authStore.isSuperuser) return;
+
+  const collection = await pb.collections.getOne<CollectionModel>(collectionName);
+  const fields = collection.fields ?? [];
+  const fieldErrors: Record<string, string> = {};
+  for (const name of fieldNames) {
+    const field = fields.find(f => f.name === name);
+    if (!field) {
+      const match = closestMatch(name, fields.filter(f => f.type === 'json').map(f => f.name));
+      fieldErrors[name] = `Unknown field for collection "${collection.name}"${match ? `. Did you mean "${match}"?` : ''}`;
+    } else if (field.type !== 'json') {
+      fieldErrors[name] = `JSON Patch only applies to json fields, not ${field.type} fields; set the value in data instead`;
+    }
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      'JSON Patch targets fields that are not json fields',
+      'Patch json fields only; nothing was sent to PocketBase',
+      fieldErrors
+    );
+  }
+}
+
+/** Result of checking several record payloads against their live schemas */
+export interface BatchValidationReport {
+  /** Whether the schemas could be checked */
+  checked: boolean;
+  /** Whether no problems were found */
+  valid: boolean;
+  /** Problems keyed by field name, per operation */
+  errors?: { index: number; collection: string; fieldErrors: Record<string, string> }[];
+  /** Why the check was skipped */
+  note?: string;
+}
+
+/**
+ * Validate the payloads of batch operations, fetching each collection schema once
+ * Creates are checked in full, updates and upserts as partial payloads.
+ */
+export async function checkBatchPayloads(
+  pb: PocketBase,
+  operations: { action: string; collection: string; data?: Record<string, unknown> }[]
+): Promise<BatchValidationReport> {
+  if (!pb.authStore.isSuperuser) {
+    return { checked: false, valid: true, note: SCHEMA_UNAVAILABLE_NOTE };
+  }
+
+  const schemas = new Map<string, CollectionModel>();
+  const errors: NonNullable<BatchValidationReport['errors']> = [];
+
+  for (const [index, op] of operations.entries()) {
+    if (!op.data) continue;
+
+    const collection = schemas.get(op.collection) ?? await pb.collections.getOne<CollectionModel>(op.collection);
+    schemas.set(op.collection, collection);
+
+    const fieldErrors = validateRecordData(collection, op.data, { partial: op.action !== 'create' });
+    if (Object.keys(fieldErrors).length > 0) {
+      errors.push({ index, collection: op.collection, fieldErrors });
+    }
+  }
+
+  return {
+    checked: true,
+    valid: errors.length === 0,
+    ...(errors.length > 0 && { errors }),
+  };
+}
@@ -3,53 +3,76 @@
  */
 
 import { z } from 'zod';
-import { getClient, requireAdminAuth, handlePocketBaseError } from '../services/pocketbase.js';
+import type PocketBase from 'pocketbase';
+import {
+  getClient,
+  getInstance,
+  requireWritable,
+  requireAdminAuth,
+  createErrorResponse,
+  handlePocketBaseError,
+} from '../services/pocketbase.js';
+import { requestConfirmation, consumeConfirmation } from '../services/confirmation.js';
+import { closestMatch } from '../services/completion.js';
+import { compileWhere, combineFilters } from '../services/filter.js';
+import { ErrorCodes } from '../constants.js';
 import { format } from '../formatters/index.js';
+import { whereParam } from '../schemas/where.js';
+import { formatParam, instanceParam } from '../schemas/common.js';
 import type { OutputFormat } from '../types.js';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
 // Schemas for admin tools
-const FormatSchema = z.enum(['toml', 'json']).default('toml');
-
 const HealthCheckInputSchema = z.object({
-  format: FormatSchema.describe('Output format: toml (default, compact) or json'),
+  instance: instanceParam,
+  format: formatParam,
 });
 
 const ListLogsInputSchema = z.object({
   page: z.number().int().min(1).default(1).describe('Page number (1-indexed)'),
   perPage: z.number().int().min(1).max(500).default(50).describe('Items per page'),
   filter: z.string().optional().describe('Filter expression (e.g., level="error")'),
+  where: whereParam,
   sort: z.string().optional().describe('Sort field(s), prefix with - for descending'),
-  format: FormatSchema.describe('Output format: toml (default, compact) or json'),
+  instance: instanceParam,
+  format: formatParam,
 });
 
 const GetLogInputSchema = z.object({
   id: z.string().min(1).describe('Log entry ID'),
-  format: FormatSchema.describe('Output format: toml (default, compact) or json'),
+  instance: instanceParam,
+  format: formatParam,
 });
 
 const LogStatsInputSchema = z.object({
   filter: z.string().optional().describe('Filter expression for stats'),
-  format: FormatSchema.describe('Output format: toml (default, compact) or json'),
+  instance: instanceParam,
+  format: formatParam,
 });
 
 const ListBackupsInputSchema = z.object({
-  format: FormatSchema.describe('Output format: toml (default, compact) or json'),
+  instance: instanceParam,
+  format: formatParam,
 });
 
 const CreateBackupInputSchema = z.object({
   name: z.string().optional().describe('Backup file name (optional, auto-generated if not provided). Must be in format [a-z0-9_-].zip'),
-  format: FormatSchema.describe('Output format: toml (default, compact) or json'),
+  instance: instanceParam,
+  format: formatParam,
 });
 
 const RestoreBackupInputSchema = z.object({
   name: z.string().min(1).describe('Backup file name to restore'),
-  format: FormatSchema.describe('Output format: toml (default, compact) or json'),
+  confirmToken: z.string().optional().describe('Confirmation token from a previous preview call. Omit to get an impact preview and a token.'),
+  instance: instanceParam,
+  format: formatParam,
 });
 
 const DeleteBackupInputSchema = z.object({
   name: z.string().min(1).describe('Backup file name to delete'),
-  format: FormatSchema.describe('Output format: toml (default, compact) or json'),
+  confirmToken: z.string().optional().describe('Confirmation token from a previous preview call. Omit to get an impact preview and a token.'),
+  instance: instanceParam,
+  format: formatParam,
 });
 
 type HealthCheckInput = z.infer<typeof HealthCheckInputSchema>;
@@ -61,6 +84,26 @@ type CreateBackupInput = z.infer<typeof CreateBackupInputSchema>;
 type RestoreBackupInput = z.infer<typeof RestoreBackupInputSchema>;
 type DeleteBackupInput = z.infer<typeof DeleteBackupInputSchema>;
 
+/**
+ * Look up a backup file by name
+ * @throws ErrorResponse if the backup does not exist
+ */
+async function findBackup(pb: PocketBase, name: string): Promise<{ key: string; size: number; modified: string }> {
+  const backups = await pb.backups.getFullList();
+  const backup = backups.find(b => b.key === name);
+  if (!backup) {
+    const match = closestMatch(name, backups.map(b => b.key));
+    throw createErrorResponse(
+      ErrorCodes.NOT_FOUND,
+      `Backup "${name}" not found`,
+      match
+        ? `Did you mean "${match}"? Use pocketbase_list_backups to see available backup files`
+        : 'Use pocketbase_list_backups to see available backup files'
+    );
+  }
+  return { key: backup.key, size: backup.size, modified: backup.modified };
+}
+
 /**
  * Register all admin tools with the MCP server
  */
@@ -76,9 +119,9 @@ Does not require authentication.
 Examples:
 - Check health: (no params needed)`,
     HealthCheckInputSchema.shape,
-    async (params: HealthCheckInput) => {
+    async (params: HealthCheckInput, extra) => {
       try {
-        const pb = getClient();
+        const pb = getClient(extra.sessionId, params.instance);
         const health = await pb.health.check();
         
         const output = {
@@ -116,15 +159,17 @@ Supports filtering by level, date, and other fields.
 Examples:
 - List all: (no params needed)
 - Filter errors: filter="level='error'"
+- Structured filter: where={"and": [{"field": "level", "op": ">=", "value": 4}, {"field": "data.url", "op": "~", "value": "/api/"}]}
 - Sort by newest: sort="-created"`,
     ListLogsInputSchema.shape,
-    async (params: ListLogsInput) => {
+    async (params: ListLogsInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         const options: Record<string, unknown> = {};
-        if (params.filter) options.filter = params.filter;
+        const filter = combineFilters(params.filter, params.where && compileWhere(pb, params.where));
+        if (filter) options.filter = filter;
         if (params.sort) options.sort = params.sort;
         
         const result = await pb.logs.getList(params.page, params.perPage, options);
@@ -170,10 +215,10 @@ Returns the full log entry with all details.
 Examples:
 - Get log: id="abc123"`,
     GetLogInputSchema.shape,
-    async (params: GetLogInput) => {
+    async (params: GetLogInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         const log = await pb.logs.getOne(params.id);
         
@@ -213,10 +258,10 @@ Examples:
 - Get stats: (no params needed)
 - Filter stats: filter="level='error'"`,
     LogStatsInputSchema.shape,
-    async (params: LogStatsInput) => {
+    async (params: LogStatsInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         const options: Record<string, unknown> = {};
         if (params.filter) options.filter = params.filter;
@@ -255,10 +300,10 @@ Returns list of backup files with their details.
 Examples:
 - List all: (no params needed)`,
     ListBackupsInputSchema.shape,
-    async (params: ListBackupsInput) => {
+    async (params: ListBackupsInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         const backups = await pb.backups.getFullList();
         
@@ -300,10 +345,11 @@ Examples:
 - Auto-named backup: (no params needed)
 - Named backup: name="my-backup-2024.zip"`,
     CreateBackupInputSchema.shape,
-    async (params: CreateBackupInput) => {
+    async (params: CreateBackupInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireWritable(params.instance);
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         await pb.backups.create(params.name || '');
         
@@ -340,14 +386,44 @@ Examples:
 ⚠️ WARNING: This will replace all current data with the backup data.
 This action cannot be undone.
 
+Two-phase confirmation:
+1. Call without confirmToken: nothing is restored. Returns the backup details and a short-lived confirmToken.
+2. Call again with the same arguments plus confirmToken to actually restore.
+
 Examples:
-- Restore backup: name="my-backup-2024.zip"`,
+- Preview: name="my-backup-2024.zip"
+- Restore: name="my-backup-2024.zip", confirmToken="<token from preview>"`,
     RestoreBackupInputSchema.shape,
-    async (params: RestoreBackupInput) => {
+    async (params: RestoreBackupInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireWritable(params.instance);
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
+        
+        const scope = {
+          sessionId: extra.sessionId,
+          tool: 'pocketbase_restore_backup',
+          target: `${getInstance(params.instance).name}/${params.name}`,
+        };
         
+        // Phase 1: impact preview
+        if (!params.confirmToken) {
+          const backup = await findBackup(pb, params.name);
+          const output = requestConfirmation(scope, {
+            action: 'restore_backup',
+            impact: {
+              backup,
+              warning: 'All current data and files will be replaced with the backup contents and the server will restart',
+            },
+          });
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
+        // Phase 2: confirmed restore
+        consumeConfirmation(params.confirmToken, scope);
         await pb.backups.restore(params.name);
         
         const output = {
@@ -381,14 +457,41 @@ Examples:
 Permanently deletes the specified backup file.
 This action cannot be undone.
 
+Two-phase confirmation:
+1. Call without confirmToken: nothing is deleted. Returns the backup details and a short-lived confirmToken.
+2. Call again with the same arguments plus confirmToken to actually delete.
+
 Examples:
-- Delete backup: name="my-backup-2024.zip"`,
+- Preview: name="my-backup-2024.zip"
+- Delete: name="my-backup-2024.zip", confirmToken="<token from preview>"`,
     DeleteBackupInputSchema.shape,
-    async (params: DeleteBackupInput) => {
+    async (params: DeleteBackupInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireWritable(params.instance);
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
+        
+        const scope = {
+          sessionId: extra.sessionId,
+          tool: 'pocketbase_delete_backup',
+          target: `${getInstance(params.instance).name}/${params.name}`,
+        };
         
+        // Phase 1: impact preview
+        if (!params.confirmToken) {
+          const backup = await findBackup(pb, params.name);
+          const output = requestConfirmation(scope, {
+            action: 'delete_backup',
+            impact: { backup },
+          });
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
+        // Phase 2: confirmed delete
+        consumeConfirmation(params.confirmToken, scope);
         await pb.backups.delete(params.name);
         
         const output = {
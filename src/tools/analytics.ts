@@ -0,0 +1,241 @@
+/**
+ * Analytics Tools - Aggregate and profile record data without pulling it into context
+ */
+
+import { z } from 'zod';
+import type { CollectionModel } from 'pocketbase';
+import {
+  getClient,
+  requireAdminAuth,
+  createErrorResponse,
+  handlePocketBaseError,
+} from '../services/pocketbase.js';
+import { walkRecords, fitItems } from '../services/pagination.js';
+import { reportProgress } from '../services/progress.js';
+import {
+  parseAggregates,
+  aggregateFields,
+  accumulate,
+  summarizeGroups,
+  type AggregateGroups,
+} from '../services/aggregate.js';
+import { createFieldProfiles, profileRecords, summarizeProfiles } from '../services/profile.js';
+import { closestMatch } from '../services/completion.js';
+import { checkFilter } from '../services/filter.js';
+import { getListAllConfig } from '../config.js';
+import { format } from '../formatters/index.js';
+import { formatParam, instanceParam } from '../schemas/common.js';
+import { ErrorCodes, MAX_LIMIT, MAX_RESPONSE_SIZE } from '../constants.js';
+import type { OutputFormat } from '../types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+// Schemas for analytics tools
+const FieldNameSchema = z.string().regex(/^[A-Za-z_]\w*$/, 'Must be a plain field name');
+
+const AggregateInputSchema = z.object({
+  collection: z.string().min(1, 'Collection name required').describe('Collection name'),
+  filter: z.string().optional().describe('PocketBase filter expression selecting the records to aggregate'),
+  groupBy: z.array(FieldNameSchema).default([]).describe('Fields to group by (e.g., ["status"]); omit for a single total row'),
+  aggregates: z.array(z.string().min(1)).min(1).default(['count'])
+    .describe('Aggregate expressions: count, count(field), sum(field), avg(field), min(field), max(field), optionally "as name"'),
+  maxRecords: z.number().int().min(1).optional()
+    .describe('Stop scanning after this many records (capped by the server limit, 10000 unless POCKETBASE_MCP_LIST_ALL_MAX is set)'),
+  instance: instanceParam,
+  format: formatParam,
+});
+
+type AggregateInput = z.infer<typeof AggregateInputSchema>;
+
+const ProfileCollectionInputSchema = z.object({
+  collection: z.string().min(1, 'Collection name required').describe('Collection name'),
+  fields: z.array(FieldNameSchema).optional().describe('Fields to profile (default: every field in the schema)'),
+  filter: z.string().optional().describe('PocketBase filter expression selecting the records to profile'),
+  sample: z.number().int().min(1).max(MAX_LIMIT).optional()
+    .describe(`Profile a random sample of this many records instead of scanning all (max ${MAX_LIMIT})`),
+  topN: z.number().int().min(1).max(50).default(5).describe('Most frequent values to list per field'),
+  maxRecords: z.number().int().min(1).optional()
+    .describe('Stop a full scan after this many records (capped by the server limit, 10000 unless POCKETBASE_MCP_LIST_ALL_MAX is set)'),
+  instance: instanceParam,
+  format: formatParam,
+});
+
+type ProfileCollectionInput = z.infer<typeof ProfileCollectionInputSchema>;
+
+/**
+ * Register all analytics tools with the MCP server
+ */
+export function registerAnalyticsTools(server: McpServer): void {
+  // Aggregate Tool
+  server.tool(
+    'pocketbase_aggregate',
+    `Compute count, sum, avg, min and max over records, optionally grouped.
+
+PocketBase has no aggregate endpoint, so this streams matching records page by
+page (fetching only the needed fields) and returns one row per group plus the
+number of records scanned. Sends progress notifications per page when requested.
+
+Examples:
+- Count records: collection="orders"
+- Orders per status: collection="orders", groupBy=["status"]
+- Revenue this year: collection="orders", filter="created >= '2026-01-01'", aggregates=["count", "sum(total) as revenue", "avg(total)"]
+- Date range per user: collection="events", groupBy=["user"], aggregates=["min(created)", "max(created)"]`,
+    AggregateInputSchema.shape,
+    async (params: AggregateInput, extra) => {
+      try {
+        const specs = parseAggregates(params.aggregates);
+        const pb = getClient(extra.sessionId, params.instance);
+        await checkFilter(pb, params.collection, params.filter);
+        const cap = getListAllConfig().maxRecords;
+        const maxRecords = Math.min(params.maxRecords ?? cap, cap);
+
+        const groups: AggregateGroups = new Map();
+        const walk = await walkRecords(
+          pb,
+          params.collection,
+          {
+            fields: aggregateFields(specs, params.groupBy),
+            ...(params.filter && { filter: params.filter }),
+          },
+          { pageSize: MAX_LIMIT, maxRecords },
+          async (page, info) => {
+            accumulate(groups, page, specs, params.groupBy);
+            const total = Math.min(info.totalItems, maxRecords);
+            await reportProgress(extra, info.fetched, total, `Scanned ${info.fetched}/${total} records`);
+          }
+        );
+
+        const rows = summarizeGroups(groups, specs, params.groupBy);
+        const summary = {
+          collection: params.collection,
+          scanned: walk.fetched,
+          totalItems: walk.totalItems,
+          ...(params.groupBy.length > 0 && { groups: rows.length }),
+          ...(walk.capped && {
+            capped: true,
+            _message: `Stopped after ${walk.fetched} of ${walk.totalItems} records; results are partial. Narrow the filter or raise maxRecords.`,
+          }),
+        };
+
+        const render = (subset: Record<string, unknown>[]) => format({
+          ...summary,
+          ...(subset.length < rows.length && {
+            _truncated: true,
+            _message: `Showing ${subset.length} of ${rows.length} groups (response size limit). Group by fewer fields or narrow the filter.`,
+          }),
+          results: subset,
+        }, params.format as OutputFormat);
+
+        let text = render(rows);
+        if (text.length > MAX_RESPONSE_SIZE) {
+          text = render(rows.slice(0, fitItems(rows, MAX_RESPONSE_SIZE, render)));
+        }
+
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Profile Collection Tool
+  server.tool(
+    'pocketbase_profile_collection',
+    `Profile the values of each field in a collection.
+
+For every schema field reports the empty rate, distinct count, most frequent values
+with counts, min/max (and average) for numbers and dates, and length statistics for
+strings. Use it to find valid select values, date ranges and typical data before
+writing filters. Scans all matching records, or a random sample with sample=N.
+Requires admin authentication (reads the collection schema).
+
+Examples:
+- Whole collection: collection="orders"
+- Quick look: collection="orders", sample=200
+- Some fields: collection="orders", fields=["status", "total", "created"], topN=10`,
+    ProfileCollectionInputSchema.shape,
+    async (params: ProfileCollectionInput, extra) => {
+      try {
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
+
+        await checkFilter(pb, params.collection, params.filter);
+
+        const collection = await pb.collections.getOne<CollectionModel>(params.collection);
+        const schemaFields = collection.fields ?? [];
+        const unknown = (params.fields ?? []).filter(name => !schemaFields.some(f => f.name === name));
+        if (unknown.length > 0) {
+          const names = schemaFields.map(f => f.name);
+          throw createErrorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `Unknown fields in "${params.collection}": ${unknown.join(', ')}`,
+            `Available fields: ${names.join(', ')}`,
+            Object.fromEntries(unknown.map(name => {
+              const match = closestMatch(name, names);
+              return [name, match ? `Unknown field. Did you mean "${match}"?` : 'Unknown field'];
+            }))
+          );
+        }
+
+        const profiles = createFieldProfiles(
+          params.fields ? schemaFields.filter(f => params.fields?.includes(f.name)) : schemaFields
+        );
+        const cap = getListAllConfig().maxRecords;
+        const maxRecords = params.sample ?? Math.min(params.maxRecords ?? cap, cap);
+
+        const walk = await walkRecords(
+          pb,
+          params.collection,
+          {
+            fields: profiles.map(p => p.name).join(',') || 'id',
+            ...(params.filter && { filter: params.filter }),
+            ...(params.sample && { sort: '@random' }),
+          },
+          { pageSize: params.sample ?? MAX_LIMIT, maxRecords },
+          async (page, info) => {
+            profileRecords(profiles, page);
+            const total = Math.min(info.totalItems, maxRecords);
+            await reportProgress(extra, info.fetched, total, `Profiled ${info.fetched}/${total} records`);
+          }
+        );
+
+        const output = {
+          collection: params.collection,
+          scanned: walk.fetched,
+          totalItems: walk.totalItems,
+          ...(params.sample && { sampled: true }),
+          ...(walk.capped && !params.sample && {
+            capped: true,
+            _message: `Stopped after ${walk.fetched} of ${walk.totalItems} records; statistics are partial. Narrow the filter or use sample.`,
+          }),
+          fields: summarizeProfiles(profiles, walk.fetched, params.topN),
+        };
+
+        let text = format(output, params.format as OutputFormat);
+        if (text.length > MAX_RESPONSE_SIZE) {
+          text = format({
+            ...output,
+            fields: summarizeProfiles(profiles, walk.fetched, 1),
+            _truncated: true,
+            _message: 'Top values cut to 1 per field (response size limit). Profile fewer fields for more.',
+          }, params.format as OutputFormat);
+        }
+
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
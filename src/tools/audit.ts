@@ -0,0 +1,98 @@
+/**
+ * Audit Tools - Search the tool invocation audit log
+ */
+
+import { z } from 'zod';
+import { getClient, createErrorResponse, handlePocketBaseError } from '../services/pocketbase.js';
+import { queryAuditLog } from '../services/audit.js';
+import { getAuditConfig } from '../config.js';
+import { format } from '../formatters/index.js';
+import { formatParam, instanceParam } from '../schemas/common.js';
+import { ErrorCodes } from '../constants.js';
+import type { OutputFormat } from '../types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+// Schemas for audit tools
+const AuditQueryInputSchema = z.object({
+  tool: z.string().optional().describe('Tool name or glob pattern (e.g., "pocketbase_delete_*")'),
+  outcome: z.enum(['success', 'error']).optional().describe('Only successful or only failed invocations'),
+  errorCode: z.string().optional().describe('Only invocations that failed with this error code (e.g., "PERMISSION_DENIED")'),
+  sessionId: z.string().optional().describe('Only invocations from this MCP session (superusers only; others always see their own session)'),
+  since: z.string().datetime({ offset: true }).optional().describe('Only invocations at or after this ISO timestamp'),
+  until: z.string().datetime({ offset: true }).optional().describe('Only invocations at or before this ISO timestamp'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum entries to return (newest first)'),
+  instance: instanceParam,
+  format: formatParam,
+});
+
+type AuditQueryInput = z.infer<typeof AuditQueryInputSchema>;
+
+/**
+ * Register all audit tools with the MCP server
+ */
+export function registerAuditTools(server: McpServer): void {
+  // Audit Query Tool
+  server.tool(
+    'pocketbase_audit_query',
+    `Search the audit log of tool invocations, newest first.
+
+Each entry has the timestamp, tool name, session, instance, redacted parameters,
+auth identity, duration, and outcome/error code.
+Requires the audit log to be enabled (POCKETBASE_MCP_AUDIT_LOG). Only superusers
+see every session's entries; other callers only see their own session.
+
+Examples:
+- Recent activity: (no params needed)
+- Deletions today: tool="pocketbase_delete_*", since="2026-01-20T00:00:00Z"
+- Failures: outcome="error"
+- Permission problems: errorCode="PERMISSION_DENIED"`,
+    AuditQueryInputSchema.shape,
+    async (params: AuditQueryInput, extra) => {
+      try {
+        const config = getAuditConfig();
+        if (!config.path) {
+          throw createErrorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            'Audit log is not enabled',
+            'Set POCKETBASE_MCP_AUDIT_LOG (or "audit.path" in the config file) and restart the server'
+          );
+        }
+
+        const ownSession = extra.sessionId ?? null;
+        const isSuperuser = getClient(extra.sessionId, params.instance).authStore.isSuperuser;
+        if (!isSuperuser && params.sessionId !== undefined && params.sessionId !== ownSession) {
+          throw createErrorResponse(
+            ErrorCodes.PERMISSION_DENIED,
+            'Only superusers can read the audit entries of other sessions',
+            'Omit sessionId to see your own session, or authenticate with pocketbase_auth_admin'
+          );
+        }
+
+        const result = queryAuditLog({
+          ...params,
+          sessionId: isSuperuser ? params.sessionId : ownSession,
+        }, config);
+
+        const output = {
+          ...(!isSuperuser && { _message: 'Showing your own session only; authenticate as a superuser to see all sessions' }),
+          scanned: result.scanned,
+          totalMatches: result.totalMatches,
+          returned: result.entries.length,
+          entries: result.entries,
+        };
+
+        const text = format(output, params.format as OutputFormat);
+
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -2,7 +2,8 @@
  * Authentication Tools
  */
 
-import { getClient, getAuthState, handlePocketBaseError } from '../services/pocketbase.js';
+import { getClient, getAuthState, getInstance, handlePocketBaseError } from '../services/pocketbase.js';
+import { getActiveTools } from '../services/registry.js';
 import { format } from '../formatters/index.js';
 import {
   AuthAdminInputSchema,
@@ -34,9 +35,9 @@ Admin auth is required for:
 Examples:
 - Authenticate: email="admin@example.com", password="secretpassword"`,
     AuthAdminInputSchema.shape,
-    async (params: AuthAdminInput) => {
+    async (params: AuthAdminInput, extra) => {
       try {
-        const pb = getClient();
+        const pb = getClient(extra.sessionId, params.instance);
         
         // Authenticate as superuser (PocketBase v0.21+ uses _superusers collection)
         const authData = await pb.collection('_superusers').authWithPassword(
@@ -83,9 +84,9 @@ Examples:
 - Custom collection: collection="members", identity="member@example.com", password="password"
 - Specific field: identity="user@example.com", identityField="email", password="password"`,
     AuthUserInputSchema.shape,
-    async (params: AuthUserInput) => {
+    async (params: AuthUserInput, extra) => {
       try {
-        const pb = getClient();
+        const pb = getClient(extra.sessionId, params.instance);
         
         // Build auth options
         const authOptions: { identity?: string } = {};
@@ -135,13 +136,19 @@ Examples:
     'pocketbase_get_auth_status',
     `Get current authentication status without making any changes.
 
-Returns whether authenticated, auth type (admin/user), and user/admin info if authenticated.
+Returns whether authenticated, auth type (admin/user), and user/admin info if authenticated,
+plus the list of tools active on this server.
 Use this to check if you need to authenticate before performing operations.`,
     GetAuthStatusInputSchema.shape,
-    async (params: GetAuthStatusInput) => {
+    async (params: GetAuthStatusInput, extra) => {
       try {
-        const authState = getAuthState();
-        const text = format(authState, params.format as OutputFormat);
+        const authState = getAuthState(extra.sessionId, params.instance);
+        const output = {
+          instance: getInstance(params.instance).name,
+          ...authState,
+          activeTools: getActiveTools(server),
+        };
+        const text = format(output, params.format as OutputFormat);
         
         return {
           content: [{ type: 'text', text }],
@@ -163,9 +170,9 @@ Use this to check if you need to authenticate before performing operations.`,
 
 After logout, you will need to authenticate again to access protected resources.`,
     LogoutInputSchema.shape,
-    async (params: LogoutInput) => {
+    async (params: LogoutInput, extra) => {
       try {
-        const pb = getClient();
+        const pb = getClient(extra.sessionId, params.instance);
         pb.authStore.clear();
         
         const output = {
@@ -2,8 +2,20 @@
  * Collection Management Tools
  */
 
-import { getClient, requireAdminAuth, handlePocketBaseError } from '../services/pocketbase.js';
+import { ClientResponseError } from 'pocketbase';
+import {
+  getClient,
+  getInstance,
+  requireWritable,
+  requireAdminAuth,
+  findRelationReferences,
+  handlePocketBaseError,
+} from '../services/pocketbase.js';
+import { requestConfirmation, consumeConfirmation } from '../services/confirmation.js';
+import { diffValues, diffCollectionFields } from '../services/diff.js';
+import { compileWhere, combineFilters } from '../services/filter.js';
 import { format } from '../formatters/index.js';
+import { notifyCollectionsChanged } from '../resources/collections.js';
 import {
   ListCollectionsInputSchema,
   GetCollectionInputSchema,
@@ -35,16 +47,18 @@ Use this to discover what collections are available.
 
 Examples:
 - List all: (no params needed)
-- Filter by type: filter="type='base'"`,
+- Filter by type: filter="type='base'"
+- Structured filter: where={"field": "type", "op": "=", "value": "auth"}`,
     ListCollectionsInputSchema.shape,
-    async (params: ListCollectionsInput) => {
+    async (params: ListCollectionsInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         const options: { filter?: string } = {};
-        if (params.filter) {
-          options.filter = params.filter;
+        const filter = combineFilters(params.filter, params.where && compileWhere(pb, params.where));
+        if (filter) {
+          options.filter = filter;
         }
         
         const result = await pb.collections.getList(
@@ -96,10 +110,10 @@ Examples:
 - Get posts schema: name="posts"
 - Get users schema: name="users"`,
     GetCollectionInputSchema.shape,
-    async (params: GetCollectionInput) => {
+    async (params: GetCollectionInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         const collection = await pb.collections.getOne(params.name);
         
@@ -261,12 +275,14 @@ Collection name must start with a letter and contain only alphanumeric character
 - 'updated': autodate field (set on create and update)
 
 Examples:
-- Create posts: name="posts", type="base", fields=[{name: "title", type: "text", required: true}]`,
+- Create posts: name="posts", type="base", fields=[{name: "title", type: "text", required: true}]
+- Dry run: add dryRun=true to see the exact request body and check name/relation targets without creating anything`,
     CreateCollectionInputSchema.shape,
-    async (params: CreateCollectionInput) => {
+    async (params: CreateCollectionInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireWritable(params.instance);
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         // Add automatic system fields if not already present
         const userFields = params.fields || [];
@@ -399,7 +415,51 @@ Examples:
           indexes: params.indexes || [],
         };
         
+        if (params.dryRun) {
+          const fieldErrors: Record<string, string> = {};
+          
+          // Check name availability
+          try {
+            await pb.collections.getOne(params.name);
+            fieldErrors.name = `Collection "${params.name}" already exists`;
+          } catch (error) {
+            if (!(error instanceof ClientResponseError && error.status === 404)) throw error;
+          }
+          
+          // Check relation targets resolved to existing collections
+          for (const field of collectionData.fields) {
+            if (field.type !== 'relation') continue;
+            if (!field.collectionId) {
+              fieldErrors[field.name] = 'Relation field requires options.collectionId';
+              continue;
+            }
+            try {
+              await pb.collections.getOne(field.collectionId);
+            } catch {
+              fieldErrors[field.name] = `Related collection "${field.collectionId}" not found`;
+            }
+          }
+          
+          const valid = Object.keys(fieldErrors).length === 0;
+          const output = {
+            dryRun: true,
+            action: 'create_collection',
+            request: {
+              method: 'POST',
+              path: '/api/collections',
+              body: collectionData,
+            },
+            validation: { valid, ...(!valid && { fieldErrors }) },
+            message: 'Dry run: nothing was sent to PocketBase',
+          };
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
         const collection = await pb.collections.create(collectionData);
+        notifyCollectionsChanged(server);
         
         const output = {
           success: true,
@@ -436,12 +496,14 @@ Warning: Changing fields may affect existing data.
 
 Examples:
 - Rename: name="posts", newName="articles"
-- Update rules: name="posts", listRule="", createRule="@request.auth.id != ''"`,
+- Update rules: name="posts", listRule="", createRule="@request.auth.id != ''"
+- Dry run: add dryRun=true to see the field-level diff against the current collection without updating anything`,
     UpdateCollectionInputSchema.shape,
-    async (params: UpdateCollectionInput) => {
+    async (params: UpdateCollectionInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireWritable(params.instance);
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         // First get the collection to get its ID
         const existing = await pb.collections.getOne(params.name);
@@ -541,7 +603,32 @@ Examples:
         if (params.deleteRule !== undefined) updateData.deleteRule = params.deleteRule;
         if (params.indexes) updateData.indexes = params.indexes;
         
+        if (params.dryRun) {
+          const { fields, ...settings } = updateData;
+          const output = {
+            dryRun: true,
+            action: 'update_collection',
+            request: {
+              method: 'PATCH',
+              path: `/api/collections/${encodeURIComponent(existing.id)}`,
+              body: updateData,
+            },
+            diff: {
+              collection: diffValues(existing, settings),
+              ...(fields !== undefined && {
+                fields: diffCollectionFields(existing.fields ?? [], fields as Record<string, unknown>[]),
+              }),
+            },
+            message: 'Dry run: nothing was sent to PocketBase',
+          };
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
         const collection = await pb.collections.update(existing.id, updateData);
+        notifyCollectionsChanged(server);
         
         const output = {
           success: true,
@@ -576,18 +663,64 @@ Examples:
 Permanently deletes the collection and all data it contains.
 This action cannot be undone.
 
+Two-phase confirmation:
+1. Call without confirmToken: nothing is deleted. Returns the record count, the relation
+   fields in other collections that reference this collection, and a short-lived confirmToken.
+2. Call again with the same arguments plus confirmToken to actually delete.
+
 Examples:
-- Delete posts: name="posts"`,
+- Preview: name="posts"
+- Delete: name="posts", confirmToken="<token from preview>"
+- Dry run: name="posts", dryRun=true (preview only, no token issued)`,
     DeleteCollectionInputSchema.shape,
-    async (params: DeleteCollectionInput) => {
+    async (params: DeleteCollectionInput, extra) => {
       try {
-        requireAdminAuth();
-        const pb = getClient();
+        requireWritable(params.instance);
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         // First get the collection to get its ID
         const existing = await pb.collections.getOne(params.name);
         
+        const scope = {
+          sessionId: extra.sessionId,
+          tool: 'pocketbase_delete_collection',
+          target: `${getInstance(params.instance).name}/${existing.id}`,
+        };
+        
+        // Phase 1: impact preview (also used for dry runs)
+        if (!params.confirmToken || params.dryRun) {
+          const records = await pb.collection(existing.id).getList(1, 1, { fields: 'id' });
+          const referencedBy = (await findRelationReferences(pb, existing.id))
+            .filter(ref => ref.collection !== existing.name);
+          
+          const preview = {
+            action: 'delete_collection',
+            collection: existing.name,
+            impact: {
+              type: existing.type,
+              system: existing.system,
+              records: records.totalItems,
+              fields: (existing.fields ?? []).length,
+              referencedBy,
+              ...(referencedBy.length > 0 && {
+                warning: 'Other collections have relation fields pointing to this collection; PocketBase will refuse the delete until they are removed',
+              }),
+            },
+          };
+          const output = params.dryRun
+            ? { dryRun: true, ...preview, message: 'Dry run: nothing was sent to PocketBase' }
+            : requestConfirmation(scope, preview);
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
+        // Phase 2: confirmed delete
+        consumeConfirmation(params.confirmToken, scope);
         await pb.collections.delete(existing.id);
+        notifyCollectionsChanged(server);
         
         const output = {
           success: true,
@@ -5,12 +5,11 @@
 import { z } from 'zod';
 import { getClient, handlePocketBaseError } from '../services/pocketbase.js';
 import { format } from '../formatters/index.js';
+import { formatParam, instanceParam } from '../schemas/common.js';
 import type { OutputFormat } from '../types.js';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
 // Schemas for file tools
-const FormatSchema = z.enum(['toml', 'json']).default('toml');
-
 const GetFileUrlInputSchema = z.object({
   collection: z.string().min(1).describe('Collection name or ID'),
   recordId: z.string().min(1).describe('Record ID that contains the file'),
@@ -19,7 +18,8 @@ const GetFileUrlInputSchema = z.object({
     'Thumbnail size. Formats: WxH (crop center), WxHt (crop top), WxHb (crop bottom), WxHf (fit), 0xH (resize height), Wx0 (resize width). Example: "100x100", "200x0"'
   ),
   download: z.boolean().optional().describe('If true, returns URL with download header'),
-  format: FormatSchema.describe('Output format: toml (default, compact) or json'),
+  instance: instanceParam,
+  format: formatParam,
 });
 
 type GetFileUrlInput = z.infer<typeof GetFileUrlInputSchema>;
@@ -50,9 +50,9 @@ Examples:
 - Resize width: collection="posts", recordId="abc123", filename="photo.png", thumb="200x0"
 - Force download: collection="posts", recordId="abc123", filename="file.zip", download=true`,
     GetFileUrlInputSchema.shape,
-    async (params: GetFileUrlInput) => {
+    async (params: GetFileUrlInput, extra) => {
       try {
-        const pb = getClient();
+        const pb = getClient(extra.sessionId, params.instance);
         
         // Build the file URL
         // Format: /api/files/COLLECTION/RECORD_ID/FILENAME
@@ -0,0 +1,239 @@
+/**
+ * Import Tools - Load CSV, JSON and NDJSON data into a collection
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { z } from 'zod';
+import type { CollectionModel } from 'pocketbase';
+import {
+  getClient,
+  requireAdminAuth,
+  requireWritable,
+  createErrorResponse,
+  handlePocketBaseError,
+} from '../services/pocketbase.js';
+import {
+  detectFormat,
+  detectDelimiter,
+  resolveImportPath,
+  parseImport,
+  mapColumns,
+  checkColumns,
+  resolveLookups,
+  coerceRow,
+  createRecords,
+  type ImportRowError,
+} from '../services/import.js';
+import { resolveBatchChunkSize } from '../services/batch.js';
+import { reportProgress } from '../services/progress.js';
+import { getImportConfig, getTransportConfig } from '../config.js';
+import { format } from '../formatters/index.js';
+import { formatParam, instanceParam } from '../schemas/common.js';
+import { ErrorCodes, MAX_BATCH_OPERATIONS, MAX_IMPORT_FILE_SIZE, MAX_RESPONSE_SIZE } from '../constants.js';
+import type { OutputFormat } from '../types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+// Schemas for import tools
+const FieldNameSchema = z.string().regex(/^[A-Za-z_]\w*$/, 'Must be a plain field name');
+
+const ImportRecordsInputSchema = z.object({
+  collection: z.string().min(1, 'Collection name required').describe('Collection to import into'),
+  file: z.string().min(1).optional().describe('Path of a .csv, .json or .ndjson file on the server host'),
+  text: z.string().min(1).optional().describe('The data itself, instead of a file'),
+  inputFormat: z.enum(['csv', 'json', 'ndjson']).optional()
+    .describe('Source format (default: from the file extension, or detected from the text)'),
+  delimiter: z.string().length(1).optional()
+    .describe('CSV cell delimiter, e.g. ";" (default: tab for .tsv files, otherwise ",")'),
+  columns: z.record(FieldNameSchema.nullable()).default({})
+    .describe('Source column to field name (e.g., {"E-mail": "email"}); null skips a column. Unmapped columns keep their name'),
+  lookup: z.record(FieldNameSchema).default({})
+    .describe('Relation fields given by a display value instead of an ID, mapped to the related collection\'s field to look up (e.g., {"author": "email"})'),
+  listSeparator: z.string().min(1).default(',')
+    .describe('Separator between values in multi-select and multi-relation cells'),
+  chunkSize: z.number().int().min(1).max(MAX_BATCH_OPERATIONS).optional()
+    .describe('Records per transactional batch request (default: the server\'s batch.maxRequests)'),
+  dryRun: z.boolean().optional()
+    .describe('Parse, coerce and validate every row without creating records'),
+  instance: instanceParam,
+  format: formatParam,
+});
+
+type ImportRecordsInput = z.infer<typeof ImportRecordsInputSchema>;
+
+/** Row errors listed in one response */
+const MAX_REPORTED_ERRORS = 100;
+
+/** Coerced rows shown by a dry run */
+const DRY_RUN_SAMPLE_SIZE = 3;
+
+/**
+ * Render an import report, listing fewer row errors when it is too large
+ */
+function formatReport(
+  report: Record<string, unknown>,
+  errors: ImportRowError[],
+  outputFormat: OutputFormat
+): string {
+  const render = (count: number) => format({
+    ...report,
+    ...(errors.length > count && {
+      _truncated: true,
+      _message: `Showing ${count} of ${errors.length} row errors. Fix these rows first, or use dryRun to check the rest.`,
+    }),
+    ...(errors.length > 0 && { errors: errors.slice(0, count) }),
+  }, outputFormat);
+
+  let count = Math.min(errors.length, MAX_REPORTED_ERRORS);
+  let text = render(count);
+  while (text.length > MAX_RESPONSE_SIZE && count > 1) {
+    count = Math.floor(count / 2);
+    text = render(count);
+  }
+  return text;
+}
+
+/**
+ * Register all import tools with the MCP server
+ */
+export function registerImportTools(server: McpServer): void {
+  // Import Records Tool
+  server.tool(
+    'pocketbase_import_records',
+    `Import rows from CSV, JSON (array of objects) or NDJSON into a collection.
+
+Reads a file on the server host or inline text. Columns are renamed with columns,
+then every value is converted to its field type using the live schema: bool
+(true/false, yes/no, 1/0), number, date, multi-select and multi-relation cells split
+on listSeparator, json, and relations looked up by a display field. Each row is
+validated before sending; valid rows are created through the batch API in chunks,
+and rows the server rejects do not stop the others. Returns counts and per-row
+errors (rows numbered from 1, header excluded). Requires admin authentication.
+
+Examples:
+- CSV file: collection="products", file="/data/products.csv"
+- Inline CSV: collection="tags", text="name,color\\nNews,blue\\nSport,green"
+- Rename columns: collection="users", file="people.csv", columns={"E-mail": "email", "Notes": null}
+- Relation by email: collection="posts", file="posts.ndjson", lookup={"author": "email"}
+- Check first: collection="products", file="/data/products.csv", dryRun=true`,
+    ImportRecordsInputSchema.shape,
+    async (params: ImportRecordsInput, extra) => {
+      try {
+        requireWritable(params.instance);
+        requireAdminAuth(extra.sessionId, params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
+
+        if (Boolean(params.file) === Boolean(params.text)) {
+          throw createErrorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            'Provide exactly one source: file or text',
+            'Use file="/path/data.csv" for a file on the server host, or text="..." for inline data'
+          );
+        }
+
+        const config = getImportConfig();
+        let text = params.text ?? '';
+        if (params.file) {
+          const path = resolveImportPath(params.file, config, getTransportConfig().type);
+          if (!existsSync(path)) {
+            throw createErrorResponse(ErrorCodes.NOT_FOUND, `Import file not found: ${path}`);
+          }
+          const size = statSync(path).size;
+          if (size > MAX_IMPORT_FILE_SIZE) {
+            throw createErrorResponse(
+              ErrorCodes.VALIDATION_ERROR,
+              `File is ${size} bytes, more than the ${MAX_IMPORT_FILE_SIZE}-byte import limit`,
+              'Split the file and import the parts separately'
+            );
+          }
+          text = readFileSync(path, 'utf8');
+        }
+
+        const inputFormat = params.inputFormat ?? detectFormat(params.file, text);
+        const parsed = parseImport(text, inputFormat, params.delimiter ?? detectDelimiter(params.file));
+        const total = parsed.rows.length + parsed.errors.length;
+        if (total > config.maxRows) {
+          throw createErrorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `Source has ${total} rows, more than the import limit (${config.maxRows})`,
+            'Split the data, or raise POCKETBASE_MCP_IMPORT_MAX_ROWS on the server'
+          );
+        }
+
+        const collection = await pb.collections.getOne<CollectionModel>(params.collection);
+        const mapped = mapColumns(parsed.columns, params.columns);
+        const ignoredColumns = checkColumns(collection, mapped, params.columns, params.lookup);
+        const options = {
+          listSeparator: params.listSeparator,
+          lookupFields: params.lookup,
+          lookups: await resolveLookups(pb, collection, parsed.rows, mapped, params.lookup, params.listSeparator),
+        };
+
+        const errors: ImportRowError[] = [...parsed.errors];
+        const valid: { row: number; data: Record<string, unknown> }[] = [];
+        for (const row of parsed.rows) {
+          const result = coerceRow(collection, row, mapped, options);
+          if ('error' in result) {
+            errors.push(result.error);
+          } else {
+            valid.push({ row: row.row, data: result.data });
+          }
+        }
+
+        const summary = {
+          collection: params.collection,
+          inputFormat,
+          rows: total,
+          ...(ignoredColumns.length > 0 && { ignoredColumns }),
+        };
+
+        if (params.dryRun || valid.length === 0) {
+          const report = {
+            ...(params.dryRun && { dryRun: true }),
+            ...summary,
+            valid: valid.length,
+            invalid: errors.length,
+            ...(params.dryRun && { sample: valid.slice(0, DRY_RUN_SAMPLE_SIZE) }),
+            message: params.dryRun ? 'Dry run: nothing was sent to PocketBase' : 'No valid rows to import',
+          };
+          errors.sort((a, b) => a.row - b.row);
+          return {
+            content: [{ type: 'text', text: formatReport(report, errors, params.format as OutputFormat) }],
+            ...(!params.dryRun && { isError: true }),
+          };
+        }
+
+        const chunkSize = params.chunkSize ?? await resolveBatchChunkSize(pb);
+        const result = await createRecords(
+          pb,
+          params.collection,
+          valid,
+          chunkSize,
+          (handled, count) => reportProgress(extra, handled, count, `Imported ${handled}/${count} rows`)
+        );
+
+        errors.push(...result.failed);
+        errors.sort((a, b) => a.row - b.row);
+        const report = {
+          ...summary,
+          imported: result.created.length,
+          failed: errors.length,
+          ...(result.notSent > 0 && { notSent: result.notSent }),
+          ...(result.aborted && {
+            message: `Stopped after ${result.created.length} records: ${result.aborted}. Rows already imported stay; re-run with the remaining rows.`,
+          }),
+        };
+
+        return {
+          content: [{ type: 'text', text: formatReport(report, errors, params.format as OutputFormat) }],
+          ...((errors.length > 0 || result.aborted) && { isError: true }),
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
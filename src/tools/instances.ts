@@ -0,0 +1,66 @@
+/**
+ * Instance Tools - Named PocketBase instance profiles
+ */
+
+import { z } from 'zod';
+import { handlePocketBaseError } from '../services/pocketbase.js';
+import { getInstancesConfig } from '../config.js';
+import { format } from '../formatters/index.js';
+import { formatParam } from '../schemas/common.js';
+import type { OutputFormat } from '../types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+// Schemas for instance tools
+const ListInstancesInputSchema = z.object({
+  format: formatParam,
+});
+
+type ListInstancesInput = z.infer<typeof ListInstancesInputSchema>;
+
+/**
+ * Register all instance tools with the MCP server
+ */
+export function registerInstanceTools(server: McpServer): void {
+  // List Instances Tool
+  server.tool(
+    'pocketbase_list_instances',
+    `List the configured PocketBase instance profiles.
+
+Every other tool accepts an optional "instance" parameter naming one of these profiles.
+When omitted, the default instance is used.
+
+Examples:
+- List instances: (no params needed)
+- Then query staging: pocketbase_list_records with instance="staging"`,
+    ListInstancesInputSchema.shape,
+    async (params: ListInstancesInput) => {
+      try {
+        const config = getInstancesConfig();
+        
+        const output = {
+          defaultInstance: config.defaultInstance,
+          totalInstances: Object.keys(config.instances).length,
+          instances: Object.values(config.instances).map(profile => ({
+            name: profile.name,
+            url: profile.url,
+            readOnly: profile.readOnly,
+            hasCredentials: Boolean(profile.tokenEnv && process.env[profile.tokenEnv]),
+            isDefault: profile.name === config.defaultInstance,
+          })),
+        };
+        
+        const text = format(output, params.format as OutputFormat);
+        
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -3,24 +3,103 @@
  */
 
 import { z } from 'zod';
-import { getClient, handlePocketBaseError, isErrorResponse } from '../services/pocketbase.js';
+import { createHash } from 'node:crypto';
+import type PocketBase from 'pocketbase';
+import { ClientResponseError, type RecordModel } from 'pocketbase';
+import {
+  getClient,
+  getInstance,
+  requireWritable,
+  findRelationReferences,
+  createErrorResponse,
+  handlePocketBaseError,
+  isErrorResponse,
+} from '../services/pocketbase.js';
+import { requestConfirmation, consumeConfirmation } from '../services/confirmation.js';
+import { checkRecordPayload, checkBatchPayloads, requireValidPayload, requireJsonFields } from '../services/validation.js';
+import { resolveBatchChunkSize, runBatch } from '../services/batch.js';
+import { previewMatches, collectMatchingIds, applyToMatches, type BulkResult } from '../services/bulk.js';
+import { diffValues } from '../services/diff.js';
+import { hasPrecondition, requirePreconditions } from '../services/concurrency.js';
+import { parseModifierKey, hasModifiers, resolveModifiers, patchFields } from '../services/patch.js';
+import { suggestCollectionName } from '../services/completion.js';
+import { walkRecords, spillToFile, fitItems, type PageQueryOptions } from '../services/pagination.js';
+import { reportProgress } from '../services/progress.js';
+import { checkFilter, compileWhere, combineFilters } from '../services/filter.js';
+import { parseSortKeys, formatSortKeys, encodeCursor, resolveCursor, missingFields } from '../services/cursor.js';
+import { getListAllConfig } from '../config.js';
 import { format } from '../formatters/index.js';
-import { MAX_RESPONSE_SIZE } from '../constants.js';
+import { ErrorCodes, MAX_RESPONSE_SIZE } from '../constants.js';
 import {
   ListRecordsInputSchema,
+  ListAllRecordsInputSchema,
   GetRecordInputSchema,
+  FindFirstRecordInputSchema,
+  RecordExistsInputSchema,
   CreateRecordInputSchema,
   UpdateRecordInputSchema,
+  UpsertRecordInputSchema,
   DeleteRecordInputSchema,
+  BatchInputSchema,
+  UpdateWhereInputSchema,
+  DeleteWhereInputSchema,
   type ListRecordsInput,
+  type ListAllRecordsInput,
   type GetRecordInput,
+  type FindFirstRecordInput,
+  type RecordExistsInput,
   type CreateRecordInput,
   type UpdateRecordInput,
+  type UpsertRecordInput,
   type DeleteRecordInput,
+  type BatchInput,
+  type UpdateWhereInput,
+  type DeleteWhereInput,
 } from '../schemas/records.js';
+import type { WhereClause } from '../schemas/where.js';
 import type { RecordListResult, OutputFormat } from '../types.js';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
+/**
+ * Whether an error is getFirstListItem's "no matching record" error
+ * (raised by the SDK without a request URL, unlike a missing collection)
+ */
+function isNoMatch(error: unknown): boolean {
+  return error instanceof ClientResponseError && error.status === 404 && !error.url;
+}
+
+/**
+ * Combine the filter and where parameters of a bulk tool
+ * @throws ErrorResponse if neither is given
+ */
+function requireBulkFilter(pb: PocketBase, params: { filter?: string; where?: WhereClause }): string {
+  const filter = combineFilters(params.filter, params.where && compileWhere(pb, params.where));
+  if (!filter) {
+    throw createErrorResponse(
+      ErrorCodes.VALIDATION_ERROR,
+      'A filter or where condition is required',
+      'To target every record on purpose, pass filter="id != \'\'"'
+    );
+  }
+  return filter;
+}
+
+/**
+ * Format a bulk result, listing only counts of succeeded IDs when the full list is too large
+ */
+function formatBulkResult(output: Record<string, unknown> & BulkResult, outputFormat: OutputFormat): string {
+  const text = format(output, outputFormat);
+  if (text.length <= MAX_RESPONSE_SIZE) return text;
+
+  return format({
+    ...output,
+    succeeded: output.succeeded.length,
+    notApplied: output.notApplied.length,
+    _truncated: true,
+    _message: 'ID lists replaced by counts to fit the response size limit.',
+  }, outputFormat);
+}
+
 /**
  * Register all record tools with the MCP server
  */
@@ -37,51 +116,182 @@ Examples:
 - List all posts: collection="posts"
 - Filter published: collection="posts", filter="status='published'"
 - Sort by newest: collection="posts", sort="-created"
-- With author: collection="posts", expand="author"`,
+- Structured filter: collection="posts", where={"and": [{"field": "status", "op": "=", "value": "published"}, {"field": "title", "op": "~", "value": "it's"}]}
+- With author: collection="posts", expand="author"
+- Next page by cursor: collection="posts", sort="-created", cursor="<nextCursor>"
+
+When sort is set, responses with more records include nextCursor. Passing it back
+(with the same sort and filter) fetches the next page without offsets, so pages
+stay stable while records are added or removed. Works with skipTotal.`,
     ListRecordsInputSchema.shape,
-    async (params: ListRecordsInput) => {
+    async (params: ListRecordsInput, extra) => {
       try {
-        const pb = getClient();
+        const pb = getClient(extra.sessionId, params.instance);
+        const filter = combineFilters(params.filter, params.where && compileWhere(pb, params.where));
+        await checkFilter(pb, params.collection, filter);
         
         const options: Record<string, unknown> = {};
-        if (params.filter) options.filter = params.filter;
+        if (filter) options.filter = filter;
         if (params.sort) options.sort = params.sort;
         if (params.fields) options.fields = params.fields;
         if (params.expand) options.expand = params.expand;
         if (params.skipTotal) options.skipTotal = params.skipTotal;
         
+        // Keyset pagination needs a deterministic order: sort keys plus an id tiebreaker
+        const sortKeys = params.sort ? parseSortKeys(params.sort) : null;
+        if (sortKeys) options.sort = formatSortKeys(sortKeys);
+        if (params.cursor) {
+          Object.assign(options, resolveCursor(pb, params.cursor, params.sort, filter));
+        }
+        
+        // The cursor is built from the sort values, so make sure they are returned
+        const addedFields = sortKeys && params.fields ? missingFields(params.fields, sortKeys) : [];
+        if (addedFields.length > 0) options.fields = `${params.fields},${addedFields.join(',')}`;
+        
         const result = await pb.collection(params.collection).getList(
-          params.page,
+          params.cursor ? 1 : params.page,
           params.perPage,
           options
         );
         
+        const hasMore = result.totalPages < 0
+          ? result.items.length === result.perPage
+          : result.page < result.totalPages;
+        const cursorAfter = (items: RecordModel[]): Pick<RecordListResult, 'nextCursor' | 'cursorNote'> => {
+          if (!hasMore || items.length === 0) return {};
+          if (sortKeys) return { nextCursor: encodeCursor(sortKeys, filter, items[items.length - 1]) };
+          return {
+            cursorNote: params.sort
+              ? 'No cursor: sort by plain fields (no relation paths or @random) to page with cursors'
+              : 'No cursor: set sort (e.g. -created) to page with cursors',
+          };
+        };
+        const toItems = (items: RecordModel[]) => items.map(item => {
+          const copy: Record<string, unknown> = { ...item };
+          for (const field of addedFields) delete copy[field];
+          return copy;
+        });
+        
         const output: RecordListResult = {
           page: result.page,
           perPage: result.perPage,
           totalItems: result.totalItems,
           totalPages: result.totalPages,
-          hasMore: result.page < result.totalPages,
-          ...(result.page < result.totalPages && {
-            nextOffset: result.page * result.perPage,
-          }),
-          items: result.items.map(item => ({ ...item })),
+          hasMore,
+          ...cursorAfter(result.items),
+          items: toItems(result.items),
         };
         
         let text = format(output, params.format as OutputFormat);
         
         // Truncate if response is too large
         if (text.length > MAX_RESPONSE_SIZE) {
-          const truncatedItems = output.items.slice(0, Math.ceil(output.items.length / 2));
+          const truncatedItems = result.items.slice(0, Math.ceil(result.items.length / 2));
           const truncatedOutput = {
             ...output,
-            items: truncatedItems,
+            hasMore: true,
+            ...(sortKeys && { nextCursor: encodeCursor(sortKeys, filter, truncatedItems[truncatedItems.length - 1]) }),
+            items: toItems(truncatedItems),
             _truncated: true,
             _message: `Response truncated from ${output.items.length} to ${truncatedItems.length} items. Use pagination or filters to see more.`,
           };
           text = format(truncatedOutput, params.format as OutputFormat);
         }
         
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        if (error instanceof ClientResponseError && error.status === 404) {
+          const suggestion = await suggestCollectionName(getClient(extra.sessionId, params.instance), params.collection);
+          if (suggestion) errorResponse.error.suggestion = suggestion;
+        }
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // List All Records Tool
+  server.tool(
+    'pocketbase_list_all_records',
+    `List every record matching a filter, walking all pages automatically.
+
+Use this instead of paging through pocketbase_list_records by hand.
+Stops at maxRecords (hard cap: 10000 by default). Sends progress notifications
+per page when the client requests progress.
+
+If the result is too large for one response, overflow="summary" (default) returns
+the first records that fit plus counts, and overflow="file" writes everything to a
+JSON file on the server and returns its path.
+
+Examples:
+- All overdue invoices: collection="invoices", filter="status='open' && due < @now"
+- Only ids and totals: collection="invoices", fields="id,total"
+- Spill to file: collection="events", overflow="file"`,
+    ListAllRecordsInputSchema.shape,
+    async (params: ListAllRecordsInput, extra) => {
+      try {
+        const pb = getClient(extra.sessionId, params.instance);
+        await checkFilter(pb, params.collection, params.filter);
+        const limits = getListAllConfig();
+        const maxRecords = Math.min(params.maxRecords ?? limits.maxRecords, limits.maxRecords);
+        
+        const options: PageQueryOptions = {};
+        if (params.filter) options.filter = params.filter;
+        if (params.sort) options.sort = params.sort;
+        if (params.fields) options.fields = params.fields;
+        if (params.expand) options.expand = params.expand;
+        
+        const items: Record<string, unknown>[] = [];
+        const walk = await walkRecords(
+          pb,
+          params.collection,
+          options,
+          { pageSize: params.pageSize, maxRecords },
+          async (page, info) => {
+            items.push(...page.map(item => ({ ...item })));
+            const total = Math.min(info.totalItems, maxRecords);
+            await reportProgress(extra, info.fetched, total, `Fetched page ${info.page} (${info.fetched}/${total} records)`);
+          }
+        );
+        
+        const summary = {
+          collection: params.collection,
+          totalItems: walk.totalItems,
+          fetched: walk.fetched,
+          pages: walk.pages,
+          ...(walk.capped && {
+            capped: true,
+            _message: `Stopped at ${maxRecords} of ${walk.totalItems} records. Narrow the filter to fetch the rest.`,
+          }),
+        };
+        
+        let text = format({ ...summary, items }, params.format as OutputFormat);
+        
+        if (text.length > MAX_RESPONSE_SIZE) {
+          if (params.overflow === 'file') {
+            const path = spillToFile(limits.spillDir, params.collection, { ...summary, items });
+            text = format({
+              ...summary,
+              file: path,
+              _message: `${items.length} records written to ${path} (too large for one response).`,
+            }, params.format as OutputFormat);
+          } else {
+            const render = (subset: Record<string, unknown>[]) => format({
+              ...summary,
+              returned: subset.length,
+              items: subset,
+              _truncated: true,
+              _message: `Showing the first ${subset.length} of ${items.length} fetched records (response size limit). Use fields to select fewer columns, a narrower filter, or overflow="file".`,
+            }, params.format as OutputFormat);
+            text = render(items.slice(0, fitItems(items, MAX_RESPONSE_SIZE, render)));
+          }
+        }
+        
         return {
           content: [{ type: 'text', text }],
         };
@@ -108,9 +318,9 @@ Examples:
 - With author: collection="posts", id="abc123", expand="author"
 - Specific fields: collection="posts", id="abc123", fields="id,title,status"`,
     GetRecordInputSchema.shape,
-    async (params: GetRecordInput) => {
+    async (params: GetRecordInput, extra) => {
       try {
-        const pb = getClient();
+        const pb = getClient(extra.sessionId, params.instance);
         
         const options: Record<string, unknown> = {};
         if (params.fields) options.fields = params.fields;
@@ -136,6 +346,106 @@ Examples:
     }
   );
 
+  // Find First Record Tool
+  server.tool(
+    'pocketbase_find_first_record',
+    `Get the first record matching a filter.
+
+Returns { found: true, record } or, when nothing matches, { found: false, code: "NOT_FOUND" }
+as a normal result instead of an error. Use this instead of listing records to look up
+a single record by a unique field.
+
+Examples:
+- User by email: collection="users", filter="email='jane@example.com'"
+- Latest order of a user: collection="orders", filter="user='abc123'", sort="-created"
+- Only the id and name: collection="users", filter="email='jane@example.com'", fields="id,name"`,
+    FindFirstRecordInputSchema.shape,
+    async (params: FindFirstRecordInput, extra) => {
+      try {
+        const pb = getClient(extra.sessionId, params.instance);
+        await checkFilter(pb, params.collection, params.filter);
+        
+        const options: Record<string, unknown> = {};
+        if (params.sort) options.sort = params.sort;
+        if (params.fields) options.fields = params.fields;
+        if (params.expand) options.expand = params.expand;
+        
+        let output: Record<string, unknown>;
+        try {
+          const record = await pb.collection(params.collection).getFirstListItem(params.filter, options);
+          output = { found: true, record: { ...record } };
+        } catch (error) {
+          if (!isNoMatch(error)) throw error;
+          output = {
+            found: false,
+            code: ErrorCodes.NOT_FOUND,
+            message: `No record in "${params.collection}" matches the filter`,
+          };
+        }
+        
+        const text = format(output, params.format as OutputFormat);
+        
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        if (error instanceof ClientResponseError && error.status === 404) {
+          const suggestion = await suggestCollectionName(getClient(extra.sessionId, params.instance), params.collection);
+          if (suggestion) errorResponse.error.suggestion = suggestion;
+        }
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Record Exists Tool
+  server.tool(
+    'pocketbase_record_exists',
+    `Check whether any record matches a filter.
+
+Returns only { exists, id } (id of the first match), so no record data enters the context.
+
+Examples:
+- Email taken: collection="users", filter="email='jane@example.com'"
+- Open ticket for a user: collection="tickets", filter="user='abc123' && status='open'"`,
+    RecordExistsInputSchema.shape,
+    async (params: RecordExistsInput, extra) => {
+      try {
+        const pb = getClient(extra.sessionId, params.instance);
+        await checkFilter(pb, params.collection, params.filter);
+        
+        let output: { exists: boolean; id?: string };
+        try {
+          const record = await pb.collection(params.collection).getFirstListItem(params.filter, { fields: 'id' });
+          output = { exists: true, id: record.id };
+        } catch (error) {
+          if (!isNoMatch(error)) throw error;
+          output = { exists: false };
+        }
+        
+        const text = format(output, params.format as OutputFormat);
+        
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        if (error instanceof ClientResponseError && error.status === 404) {
+          const suggestion = await suggestCollectionName(getClient(extra.sessionId, params.instance), params.collection);
+          if (suggestion) errorResponse.error.suggestion = suggestion;
+        }
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Create Record Tool
   server.tool(
     'pocketbase_create_record',
@@ -143,20 +453,45 @@ Examples:
 
 Returns the created record with generated ID and timestamps.
 Data should be provided as key-value pairs matching collection schema.
+With admin auth, data is first checked against the live schema (required fields,
+select values, lengths, patterns, ranges, formats, relation IDs, unknown fields) and
+every problem is returned at once in fieldErrors without sending the request.
 
 Examples:
 - Create post: collection="posts", data={"title": "Hello", "status": "draft"}
 - With relation: collection="comments", data={"text": "Nice!", "post": "post_id"}
-- With expand: collection="comments", data={"text": "Nice!", "post": "post_id"}, expand="post"`,
+- With expand: collection="comments", data={"text": "Nice!", "post": "post_id"}, expand="post"
+- Dry run: collection="posts", data={"title": "Hello"}, dryRun=true (validates against the live schema, sends nothing)`,
     CreateRecordInputSchema.shape,
-    async (params: CreateRecordInput) => {
+    async (params: CreateRecordInput, extra) => {
       try {
-        const pb = getClient();
+        requireWritable(params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         const options: Record<string, unknown> = {};
         if (params.expand) options.expand = params.expand;
         if (params.fields) options.fields = params.fields;
         
+        if (params.dryRun) {
+          const output = {
+            dryRun: true,
+            action: 'create_record',
+            request: {
+              method: 'POST',
+              path: `/api/collections/${encodeURIComponent(params.collection)}/records`,
+              ...(Object.keys(options).length > 0 && { query: options }),
+              body: params.data,
+            },
+            validation: await checkRecordPayload(pb, params.collection, params.data, { partial: false }),
+            message: 'Dry run: nothing was sent to PocketBase',
+          };
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
+        await requireValidPayload(pb, params.collection, params.data, { partial: false });
         const record = await pb.collection(params.collection).create(params.data, options);
         
         const text = format({ ...record }, params.format as OutputFormat);
@@ -185,19 +520,227 @@ Returns the updated record with new timestamps.
 Examples:
 - Update status: collection="posts", id="abc123", data={"status": "published"}
 - Update multiple: collection="posts", id="abc123", data={"title": "New Title", "status": "published"}
-- With expand: collection="posts", id="abc123", data={"author": "user_id"}, expand="author"`,
+- With expand: collection="posts", id="abc123", data={"author": "user_id"}, expand="author"
+- Dry run: collection="posts", id="abc123", data={"status": "published"}, dryRun=true (shows changes, sends nothing)
+- Only if unchanged: collection="posts", id="abc123", data={"title": "Edited"}, ifUnmodifiedSince="2026-01-02 10:00:00.000Z"
+- Only if still draft: collection="posts", id="abc123", data={"status": "published"}, expected={"status": "draft"}
+- Add a tag: collection="posts", id="abc123", data={"tags+": "tag_id"}
+- Remove tags: collection="posts", id="abc123", data={"tags-": ["tag_a", "tag_b"]}
+- Increment: collection="posts", id="abc123", data={"views+": 1}
+- Patch a json field: collection="posts", id="abc123", jsonPatch={"meta": [{"op": "replace", "path": "/theme", "value": "dark"}]}
+
+With ifUnmodifiedSince or expected, the record is re-read before writing; if it no
+longer matches, nothing is written and a CONFLICT error returns the current values.
+
+Modifiers ("field+", "+field", "field-") are applied by PocketBase. jsonPatch
+operations (RFC 6902) are applied to a fresh read of the json field and the result
+is sent as a plain value. With either, the response includes _changes (before/after
+of the touched fields); combine with ifUnmodifiedSince to guard the read-modify-write.`,
     UpdateRecordInputSchema.shape,
-    async (params: UpdateRecordInput) => {
+    async (params: UpdateRecordInput, extra) => {
       try {
-        const pb = getClient();
+        requireWritable(params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
         
         const options: Record<string, unknown> = {};
         if (params.expand) options.expand = params.expand;
         if (params.fields) options.fields = params.fields;
         
-        const record = await pb.collection(params.collection).update(params.id, params.data, options);
+        const patched = Object.keys(params.jsonPatch ?? {});
+        const overlap = Object.keys(params.data).filter(key => patched.includes(parseModifierKey(key).field));
+        if (overlap.length > 0) {
+          throw createErrorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `Fields set in both data and jsonPatch: ${overlap.join(', ')}`,
+            'Change each field either through data or through jsonPatch'
+          );
+        }
+        if (patched.length > 0) {
+          await requireJsonFields(pb, params.collection, patched);
+        }
         
-        const text = format({ ...record }, params.format as OutputFormat);
+        // Patches and modifiers are resolved against a fresh read, which also gives the diff
+        const patching = patched.length > 0 || hasModifiers(params.data);
+        const precondition = { ifUnmodifiedSince: params.ifUnmodifiedSince, expected: params.expected };
+        const current = hasPrecondition(precondition)
+          ? await requirePreconditions(pb, params.collection, params.id, precondition)
+          : params.dryRun || patching
+            ? await pb.collection(params.collection).getOne<RecordModel>(params.id)
+            : undefined;
+        const body = current && params.jsonPatch
+          ? { ...params.data, ...patchFields(current, params.jsonPatch) }
+          : params.data;
+        
+        if (params.dryRun && current) {
+          const output = {
+            dryRun: true,
+            action: 'update_record',
+            request: {
+              method: 'PATCH',
+              path: `/api/collections/${encodeURIComponent(params.collection)}/records/${encodeURIComponent(params.id)}`,
+              ...(Object.keys(options).length > 0 && { query: options }),
+              body,
+            },
+            changes: diffValues(current, resolveModifiers(current, body)),
+            validation: await checkRecordPayload(pb, params.collection, body, { partial: true }),
+            message: 'Dry run: nothing was sent to PocketBase',
+          };
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
+        await requireValidPayload(pb, params.collection, body, { partial: true });
+        const record = await pb.collection(params.collection).update(params.id, body, options);
+        
+        const output: Record<string, unknown> = { ...record };
+        if (patching && current) {
+          const keys = Object.keys(resolveModifiers(current, body)).filter(key => key in record);
+          output._changes = diffValues(current, record, keys);
+        }
+        
+        const text = format(output, params.format as OutputFormat);
+        
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Upsert Record Tool
+  server.tool(
+    'pocketbase_upsert_record',
+    `Update the record matching a key, or create it when none matches.
+
+Match on one or more fields (matchOn, values taken from data) or on a record id.
+The key must identify at most one record; a key matching several is refused. When a record matches, the data is applied as a partial update; when the data would
+not change anything, no request is sent. Returns which action happened:
+"created", "updated" or "unchanged".
+
+Examples:
+- By unique field: collection="users", matchOn=["email"], data={"email": "a@example.com", "name": "Ann"}
+- By composite key: collection="products", matchOn=["source", "sku"], data={"source": "shop", "sku": "X1", "price": 10}
+- By id: collection="tags", id="tag_news", data={"name": "News"}
+- Dry run: collection="users", matchOn=["email"], data={...}, dryRun=true (reports the action, sends nothing)`,
+    UpsertRecordInputSchema.shape,
+    async (params: UpsertRecordInput, extra) => {
+      try {
+        requireWritable(params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
+        
+        if (Boolean(params.id) === Boolean(params.matchOn)) {
+          throw createErrorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            'Provide exactly one match key: matchOn or id',
+            'Use matchOn=["field"] to match on values in data, or id="..." to match a record ID'
+          );
+        }
+        
+        // Build the lookup filter from the match key
+        let match: Record<string, unknown>;
+        if (params.id) {
+          match = { id: params.id };
+        } else {
+          const fieldErrors: Record<string, string> = {};
+          for (const field of params.matchOn ?? []) {
+            if (!/^[A-Za-z_][\w.]*$/.test(field)) {
+              fieldErrors[field] = 'Invalid field name';
+            } else if (params.data[field] === undefined) {
+              fieldErrors[field] = 'Match field must have a value in data';
+            }
+          }
+          if (Object.keys(fieldErrors).length > 0) {
+            throw createErrorResponse(
+              ErrorCodes.VALIDATION_ERROR,
+              'Invalid matchOn fields',
+              'Every matchOn field needs a value in data',
+              fieldErrors
+            );
+          }
+          match = Object.fromEntries((params.matchOn ?? []).map(field => [field, params.data[field]]));
+        }
+        
+        const keys = Object.keys(match);
+        const filter = pb.filter(
+          keys.map((field, i) => `${field} = {:v${i}}`).join(' && '),
+          Object.fromEntries(keys.map((field, i) => [`v${i}`, match[field]]))
+        );
+        
+        // Fetch two so that a key matching several records is refused, not applied to one of them
+        const { items: matches } = await pb.collection(params.collection).getList<RecordModel>(1, 2, { filter, skipTotal: true });
+        if (matches.length > 1) {
+          throw createErrorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `More than one record in "${params.collection}" matches ${JSON.stringify(match)}`,
+            'Match on fields that identify a single record (ideally with a unique index), or use id'
+          );
+        }
+        const existing: RecordModel | null = matches[0] ?? null;
+        
+        const options: Record<string, unknown> = {};
+        if (params.expand) options.expand = params.expand;
+        if (params.fields) options.fields = params.fields;
+        
+        const changes = existing ? diffValues(existing, params.data) : undefined;
+        const action = !existing ? 'created' : Object.keys(changes ?? {}).length > 0 ? 'updated' : 'unchanged';
+        const body = !existing && params.id ? { ...params.data, id: params.id } : params.data;
+        
+        if (params.dryRun) {
+          const collectionPath = `/api/collections/${encodeURIComponent(params.collection)}/records`;
+          const output = {
+            dryRun: true,
+            action,
+            matchedBy: match,
+            ...(existing && { matchedId: existing.id, changes }),
+            ...(action !== 'unchanged' && {
+              request: {
+                method: existing ? 'PATCH' : 'POST',
+                path: existing ? `${collectionPath}/${encodeURIComponent(existing.id)}` : collectionPath,
+                ...(Object.keys(options).length > 0 && { query: options }),
+                body,
+              },
+            }),
+            validation: await checkRecordPayload(pb, params.collection, body, { partial: Boolean(existing) }),
+            message: 'Dry run: nothing was sent to PocketBase',
+          };
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
+        if (action !== 'unchanged') {
+          await requireValidPayload(pb, params.collection, body, { partial: Boolean(existing) });
+        }
+        
+        let record: RecordModel;
+        if (!existing) {
+          record = await pb.collection(params.collection).create(body, options);
+        } else if (action === 'updated') {
+          record = await pb.collection(params.collection).update(existing.id, params.data, options);
+        } else {
+          record = Object.keys(options).length > 0
+            ? await pb.collection(params.collection).getOne(existing.id, options)
+            : existing;
+        }
+        
+        const output = {
+          success: true,
+          action,
+          matchedBy: match,
+          ...(changes && action === 'updated' && { changes }),
+          record: { ...record },
+        };
+        
+        const text = format(output, params.format as OutputFormat);
         
         return {
           content: [{ type: 'text', text }],
@@ -218,15 +761,70 @@ Examples:
     `Delete a record from a PocketBase collection.
 
 Permanently removes the record. This action cannot be undone.
-Returns confirmation of deletion.
+
+Two-phase confirmation:
+1. Call without confirmToken: nothing is deleted. Returns the record, the relations
+   that reference it (and how many records cascade-delete with it), and a short-lived confirmToken.
+2. Call again with the same arguments plus confirmToken to actually delete.
 
 Examples:
-- Delete post: collection="posts", id="abc123"`,
+- Preview: collection="posts", id="abc123"
+- Delete: collection="posts", id="abc123", confirmToken="<token from preview>"
+- Dry run: collection="posts", id="abc123", dryRun=true (preview only, no token issued)`,
     DeleteRecordInputSchema.shape,
-    async (params: DeleteRecordInput) => {
+    async (params: DeleteRecordInput, extra) => {
       try {
-        const pb = getClient();
+        requireWritable(params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
+        
+        const scope = {
+          sessionId: extra.sessionId,
+          tool: 'pocketbase_delete_record',
+          target: `${getInstance(params.instance).name}/${params.collection}/${params.id}`,
+        };
+        
+        // Phase 1: impact preview (also used for dry runs)
+        if (!params.confirmToken || params.dryRun) {
+          const record = await pb.collection(params.collection).getOne(params.id);
+          
+          let referencedBy: unknown = 'unknown (admin authentication required to inspect relations)';
+          let cascadeDeletes: number | undefined;
+          if (pb.authStore.isSuperuser) {
+            const references = await findRelationReferences(pb, record.collectionId);
+            const counted = await Promise.all(references.map(async ref => {
+              const result = await pb.collection(ref.collection).getList(1, 1, {
+                filter: pb.filter(`${ref.field} ?= {:id}`, { id: params.id }),
+                fields: 'id',
+              });
+              return { ...ref, records: result.totalItems };
+            }));
+            referencedBy = counted;
+            cascadeDeletes = counted
+              .filter(ref => ref.cascadeDelete)
+              .reduce((sum, ref) => sum + ref.records, 0);
+          }
+          
+          const preview = {
+            action: 'delete_record',
+            collection: params.collection,
+            id: params.id,
+            impact: {
+              record: { ...record },
+              referencedBy,
+              ...(cascadeDeletes !== undefined && { cascadeDeletes }),
+            },
+          };
+          const output = params.dryRun
+            ? { dryRun: true, ...preview, message: 'Dry run: nothing was sent to PocketBase' }
+            : requestConfirmation(scope, preview);
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
         
+        // Phase 2: confirmed delete
+        consumeConfirmation(params.confirmToken, scope);
         await pb.collection(params.collection).delete(params.id);
         
         const output = {
@@ -249,4 +847,308 @@ Examples:
       }
     }
   );
+
+  // Batch Tool
+  server.tool(
+    'pocketbase_batch',
+    `Run many create/update/upsert/delete record operations through PocketBase's batch API.
+
+Operations are sent in transactional chunks (default: the server's batch limit).
+If an operation fails, its chunk is rolled back, later chunks are not sent, and the
+error names the failing operation index. Earlier chunks stay committed.
+The batch API must be enabled in the PocketBase settings.
+
+Batches containing delete operations use two-phase confirmation: the first call
+returns a preview and a confirmToken, the second call with the token runs the batch.
+
+Examples:
+- Create: operations=[{"action": "create", "collection": "posts", "data": {"title": "A"}}, ...]
+- Mixed: operations=[{"action": "update", "collection": "posts", "id": "abc123", "data": {"status": "draft"}}, {"action": "delete", "collection": "comments", "id": "def456"}]
+- Upsert by id: operations=[{"action": "upsert", "collection": "tags", "data": {"id": "tag_news", "name": "News"}}]
+- Dry run: operations=[...], dryRun=true (validates payloads, sends nothing)`,
+    BatchInputSchema.shape,
+    async (params: BatchInput, extra) => {
+      try {
+        requireWritable(params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
+        
+        const chunkSize = params.chunkSize ?? await resolveBatchChunkSize(pb);
+        const counts = params.operations.reduce<Record<string, number>>((acc, op) => {
+          acc[op.action] = (acc[op.action] ?? 0) + 1;
+          return acc;
+        }, {});
+        
+        if (params.dryRun) {
+          const output = {
+            dryRun: true,
+            operations: params.operations.length,
+            actions: counts,
+            chunkSize,
+            chunks: Math.ceil(params.operations.length / chunkSize),
+            validation: await checkBatchPayloads(pb, params.operations),
+            message: 'Dry run: nothing was sent to PocketBase',
+          };
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
+        // Deletes require a confirmed second call for exactly these operations
+        const deletes = params.operations
+          .map((op, index) => ({ index, ...op }))
+          .filter(op => op.action === 'delete');
+        if (deletes.length > 0) {
+          const scope = {
+            sessionId: extra.sessionId,
+            tool: 'pocketbase_batch',
+            target: `${getInstance(params.instance).name}/${createHash('sha256').update(JSON.stringify(params.operations)).digest('hex')}`,
+          };
+          
+          if (!params.confirmToken) {
+            const preview = {
+              action: 'batch',
+              operations: params.operations.length,
+              actions: counts,
+              deletes,
+            };
+            
+            return {
+              content: [{ type: 'text', text: format(requestConfirmation(scope, preview), params.format as OutputFormat) }],
+            };
+          }
+          consumeConfirmation(params.confirmToken, scope);
+        }
+        
+        const result = await runBatch(pb, params.operations, chunkSize);
+        
+        if (result.failure) {
+          const { failure } = result;
+          throw createErrorResponse(
+            ErrorCodes.VALIDATION_ERROR,
+            `Operation ${failure.index} (${failure.action} ${failure.collection}${failure.id ? ` ${failure.id}` : ''}) failed: ${failure.message}`,
+            result.results.length > 0
+              ? `Operations 0-${result.results.length - 1} were committed. Fix operation ${failure.index} and resend operations ${result.results.length}-${params.operations.length - 1}.`
+              : `Nothing was committed. Fix operation ${failure.index} and resend the batch.`,
+            failure.fieldErrors
+          );
+        }
+        
+        const output = {
+          success: true,
+          operations: params.operations.length,
+          actions: counts,
+          chunks: result.chunks,
+          results: result.results,
+        };
+        
+        let text = format(output, params.format as OutputFormat);
+        
+        // Drop returned records if the response is too large
+        if (text.length > MAX_RESPONSE_SIZE) {
+          text = format({
+            ...output,
+            results: result.results.map(({ record: _record, ...rest }) => rest),
+            _truncated: true,
+            _message: 'Returned records omitted to fit the response size limit. Use pocketbase_get_record for details.',
+          }, params.format as OutputFormat);
+        }
+        
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Update Where Tool
+  server.tool(
+    'pocketbase_update_where',
+    `Update every record matching a filter with the same data.
+
+Two-phase confirmation:
+1. Call without confirmToken: nothing changes. Returns the matched count, a sample of
+   matched records, schema validation of data, and a short-lived confirmToken.
+2. Call again with the same arguments plus confirmToken to apply the update.
+
+Refuses to run when more than maxAffected records (default 100) match. Updates are sent
+through the batch API in transactional chunks with progress notifications; if a chunk
+fails it is rolled back and later chunks are not sent. The result lists succeeded,
+failed and not-applied record IDs.
+
+Examples:
+- Preview: collection="orders", filter="status='pending' && created < '2026-01-01'", data={"status": "expired"}
+- Apply: same arguments plus confirmToken="<token from preview>"
+- Structured filter: collection="users", where={"field": "verified", "op": "=", "value": false}, data={"plan": "free"}`,
+    UpdateWhereInputSchema.shape,
+    async (params: UpdateWhereInput, extra) => {
+      try {
+        requireWritable(params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
+        const filter = requireBulkFilter(pb, params);
+        await checkFilter(pb, params.collection, filter);
+        
+        const scope = {
+          sessionId: extra.sessionId,
+          tool: 'pocketbase_update_where',
+          target: `${getInstance(params.instance).name}/${params.collection}/${createHash('sha256').update(JSON.stringify([filter, params.data])).digest('hex')}`,
+        };
+        
+        // Phase 1: preview (also used for dry runs)
+        if (!params.confirmToken || params.dryRun) {
+          const preview = {
+            action: 'update_where',
+            collection: params.collection,
+            filter,
+            maxAffected: params.maxAffected,
+            ...await previewMatches(pb, params.collection, filter, params.sampleSize, params.maxAffected),
+            data: params.data,
+            validation: await checkRecordPayload(pb, params.collection, params.data, { partial: true }),
+          };
+          let output: Record<string, unknown>;
+          if (preview.matched === 0) {
+            output = { ...preview, message: 'No records match the filter; nothing to update' };
+          } else if (params.dryRun) {
+            output = { dryRun: true, ...preview, message: 'Dry run: nothing was sent to PocketBase' };
+          } else {
+            output = requestConfirmation(scope, preview);
+          }
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
+        // Phase 2: confirmed update
+        consumeConfirmation(params.confirmToken, scope);
+        await requireValidPayload(pb, params.collection, params.data, { partial: true });
+        const ids = await collectMatchingIds(pb, params.collection, filter, params.maxAffected);
+        const chunkSize = params.chunkSize ?? await resolveBatchChunkSize(pb);
+        const result = await applyToMatches(
+          pb,
+          ids,
+          id => ({ action: 'update', collection: params.collection, id, data: params.data }),
+          chunkSize,
+          (committed, total) => reportProgress(extra, committed, total, `Updated ${committed}/${total} records`)
+        );
+        
+        const output = {
+          collection: params.collection,
+          ...result,
+          ...(!result.success && {
+            message: `Updated ${result.succeeded.length} of ${result.matched} records; the chunk containing ${result.failed[0].id} was rolled back and later chunks were not sent.`,
+          }),
+        };
+        
+        return {
+          content: [{ type: 'text', text: formatBulkResult(output, params.format as OutputFormat) }],
+          ...(!result.success && { isError: true }),
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Delete Where Tool
+  server.tool(
+    'pocketbase_delete_where',
+    `Delete every record matching a filter.
+
+Permanently removes the records. This action cannot be undone.
+
+Two-phase confirmation:
+1. Call without confirmToken: nothing is deleted. Returns the matched count, a sample
+   of matched records, and a short-lived confirmToken.
+2. Call again with the same arguments plus confirmToken to delete.
+
+Refuses to run when more than maxAffected records (default 100) match. Deletes are sent
+through the batch API in transactional chunks with progress notifications; if a chunk
+fails it is rolled back and later chunks are not sent. The result lists succeeded,
+failed and not-applied record IDs.
+
+Examples:
+- Preview: collection="sessions", filter="expires < @now"
+- Delete: collection="sessions", filter="expires < @now", confirmToken="<token from preview>"
+- Dry run: collection="sessions", filter="expires < @now", dryRun=true`,
+    DeleteWhereInputSchema.shape,
+    async (params: DeleteWhereInput, extra) => {
+      try {
+        requireWritable(params.instance);
+        const pb = getClient(extra.sessionId, params.instance);
+        const filter = requireBulkFilter(pb, params);
+        await checkFilter(pb, params.collection, filter);
+        
+        const scope = {
+          sessionId: extra.sessionId,
+          tool: 'pocketbase_delete_where',
+          target: `${getInstance(params.instance).name}/${params.collection}/${createHash('sha256').update(filter).digest('hex')}`,
+        };
+        
+        // Phase 1: preview (also used for dry runs)
+        if (!params.confirmToken || params.dryRun) {
+          const preview = {
+            action: 'delete_where',
+            collection: params.collection,
+            filter,
+            maxAffected: params.maxAffected,
+            ...await previewMatches(pb, params.collection, filter, params.sampleSize, params.maxAffected),
+          };
+          let output: Record<string, unknown>;
+          if (preview.matched === 0) {
+            output = { ...preview, message: 'No records match the filter; nothing to delete' };
+          } else if (params.dryRun) {
+            output = { dryRun: true, ...preview, message: 'Dry run: nothing was sent to PocketBase' };
+          } else {
+            output = requestConfirmation(scope, preview);
+          }
+          
+          return {
+            content: [{ type: 'text', text: format(output, params.format as OutputFormat) }],
+          };
+        }
+        
+        // Phase 2: confirmed delete
+        consumeConfirmation(params.confirmToken, scope);
+        const ids = await collectMatchingIds(pb, params.collection, filter, params.maxAffected);
+        const chunkSize = params.chunkSize ?? await resolveBatchChunkSize(pb);
+        const result = await applyToMatches(
+          pb,
+          ids,
+          id => ({ action: 'delete', collection: params.collection, id }),
+          chunkSize,
+          (committed, total) => reportProgress(extra, committed, total, `Deleted ${committed}/${total} records`)
+        );
+        
+        const output = {
+          collection: params.collection,
+          ...result,
+          ...(!result.success && {
+            message: `Deleted ${result.succeeded.length} of ${result.matched} records; the chunk containing ${result.failed[0].id} was rolled back and later chunks were not sent.`,
+          }),
+        };
+        
+        return {
+          content: [{ type: 'text', text: formatBulkResult(output, params.format as OutputFormat) }],
+          ...(!result.success && { isError: true }),
+        };
+      } catch (error) {
+        const errorResponse = handlePocketBaseError(error);
+        return {
+          content: [{ type: 'text', text: format(errorResponse, params.format as OutputFormat) }],
+          isError: true,
+        };
+      }
+    }
+  );
 }
@@ -0,0 +1,319 @@
+/**
+ * HTTP Transport - Streamable HTTP with legacy SSE fallback
+ *
+ * Every client session gets its own McpServer and transport so that
+ * per-session state never leaks between connected agents.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { setInterval, clearInterval } from 'node:timers';
+import { URL } from 'node:url';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../server.js';
+import { releaseClient } from '../services/pocketbase.js';
+import { MCP_ENDPOINT, SSE_ENDPOINT, SSE_MESSAGES_ENDPOINT } from '../constants.js';
+import type { TransportConfig } from '../types.js';
+
+/** Maximum accepted request body size in bytes */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/** Longest interval between idle session sweeps (ms) */
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** An active client session */
+interface HttpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** When the session last received a request (ms since epoch) */
+  lastActive: number;
+}
+
+/** Active sessions keyed by MCP session ID */
+const sessions = new Map<string, HttpSession>();
+
+/**
+ * Check a request's Authorization header against the configured bearer token
+ * @returns true when no token is configured or the header matches
+ */
+export function isAuthorized(header: string | undefined, token: string | null): boolean {
+  if (!token) {
+    return true;
+  }
+  if (!header || !header.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const provided = Buffer.from(header.slice('Bearer '.length).trim());
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Get the number of active sessions
+ */
+export function getSessionCount(): number {
+  return sessions.size;
+}
+
+/**
+ * Close a session and release its server and PocketBase client
+ */
+async function closeSession(sessionId: string | undefined): Promise<void> {
+  if (!sessionId) return;
+
+  const session = sessions.get(sessionId);
+  if (!session) return;
+
+  // Remove first: server.close() triggers transport.onclose, which calls back here
+  sessions.delete(sessionId);
+  releaseClient(sessionId);
+  await session.server.close();
+}
+
+/**
+ * Close a server and transport that never became a stored session
+ */
+async function discardSession(server: McpServer, transport: StreamableHTTPServerTransport): Promise<void> {
+  if (transport.sessionId) releaseClient(transport.sessionId);
+  try {
+    await server.close();
+    await transport.close();
+  } catch (error) {
+    console.error('Failed to close an uninitialized session:', error);
+  }
+}
+
+/**
+ * Close sessions that received no request for longer than the idle timeout
+ * @returns The number of sessions closed
+ */
+export async function closeIdleSessions(idleTimeoutMs: number, now = Date.now()): Promise<number> {
+  const idle = [...sessions].filter(([, session]) => now - session.lastActive > idleTimeoutMs).map(([id]) => id);
+  await Promise.all(idle.map(id => closeSession(id)));
+  return idle.length;
+}
+
+/**
+ * Record activity on a session so it is not closed as idle
+ */
+function touchSession(sessionId: string | undefined): void {
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  if (session) session.lastActive = Date.now();
+}
+
+/**
+ * Close all active sessions (used on shutdown)
+ */
+export async function closeAllSessions(): Promise<void> {
+  await Promise.all([...sessions.keys()].map(id => closeSession(id)));
+}
+
+/**
+ * Write a JSON-RPC error response
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  }));
+}
+
+/**
+ * Read and parse a JSON request body
+ * @throws Error if the body is too large or is not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_SIZE) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Reject a new session when the session cap is reached
+ * @returns true when the request was rejected
+ */
+function rejectOverCapacity(res: ServerResponse, config: TransportConfig): boolean {
+  if (sessions.size < config.maxSessions) return false;
+  sendJsonRpcError(res, 503, -32000, `Too many sessions (limit ${config.maxSessions}); try again later`);
+  return true;
+}
+
+/**
+ * Handle requests to the streamable HTTP endpoint
+ */
+async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse, config: TransportConfig): Promise<void> {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  const existing = sessionId ? sessions.get(sessionId)?.transport : undefined;
+  touchSession(sessionId);
+
+  if (existing && !(existing instanceof StreamableHTTPServerTransport)) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: Session uses the SSE transport');
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    if (!existing) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    await existing.handleRequest(req, res);
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  if (existing) {
+    await existing.handleRequest(req, res, body);
+    return;
+  }
+
+  if (sessionId || !isInitializeRequest(body)) {
+    sendJsonRpcError(res, sessionId ? 404 : 400, -32000, 'Bad Request: No valid session ID provided');
+    return;
+  }
+
+  if (rejectOverCapacity(res, config)) return;
+
+  // New session: create a dedicated server and transport
+  const server = createServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      sessions.set(id, { server, transport, lastActive: Date.now() });
+    },
+  });
+  transport.onclose = () => {
+    void closeSession(transport.sessionId);
+  };
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  } finally {
+    // A failed initialization never stores the session: close it here so nothing leaks
+    if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+      await discardSession(server, transport);
+    }
+  }
+}
+
+/**
+ * Open a legacy SSE stream (protocol version 2024-11-05 clients)
+ */
+async function handleSseStream(res: ServerResponse, config: TransportConfig): Promise<void> {
+  if (rejectOverCapacity(res, config)) return;
+
+  const server = createServer();
+  const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+  const sessionId = transport.sessionId;
+
+  sessions.set(sessionId, { server, transport, lastActive: Date.now() });
+  res.on('close', () => {
+    void closeSession(sessionId);
+  });
+
+  await server.connect(transport);
+}
+
+/**
+ * Handle a message posted to a legacy SSE session
+ */
+async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+  const sessionId = url.searchParams.get('sessionId') ?? undefined;
+  const transport = sessionId ? sessions.get(sessionId)?.transport : undefined;
+
+  if (!(transport instanceof SSEServerTransport)) {
+    sendJsonRpcError(res, 404, -32000, 'Session not found');
+    return;
+  }
+  touchSession(sessionId);
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  await transport.handlePostMessage(req, res, body);
+}
+
+/**
+ * Route an incoming HTTP request
+ */
+async function handleRequest(req: IncomingMessage, res: ServerResponse, config: TransportConfig): Promise<void> {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+  if (!isAuthorized(req.headers.authorization, config.authToken)) {
+    res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+    res.end(JSON.stringify({ error: 'Unauthorized' }));
+    return;
+  }
+
+  if (url.pathname === MCP_ENDPOINT) {
+    await handleStreamableRequest(req, res, config);
+  } else if (url.pathname === SSE_ENDPOINT && req.method === 'GET') {
+    await handleSseStream(res, config);
+  } else if (url.pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+    await handleSseMessage(req, res, url);
+  } else {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+  }
+}
+
+/**
+ * Start the HTTP transport server
+ * @returns The listening Node.js HTTP server
+ */
+export async function startHttpServer(config: TransportConfig): Promise<Server> {
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res, config).catch((error) => {
+      console.error('Error handling HTTP request:', error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  // Close sessions whose clients went away without disconnecting
+  const sweep = setInterval(() => {
+    closeIdleSessions(config.sessionIdleTimeoutMs).catch((error) => {
+      console.error('Error closing idle sessions:', error);
+    });
+  }, Math.min(config.sessionIdleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+  httpServer.on('close', () => clearInterval(sweep));
+
+  return httpServer;
+}
@@ -18,6 +18,102 @@ export interface ServerConfig {
   maxResponseSize: number;
 }
 
+/** Transport configuration */
+export interface TransportConfig {
+  /** Transport type (from POCKETBASE_MCP_TRANSPORT env var) */
+  type: 'stdio' | 'http';
+  /** HTTP listen host */
+  host: string;
+  /** HTTP listen port */
+  port: number;
+  /** Bearer token required for HTTP requests (null = no auth) */
+  authToken: string | null;
+  /** Idle time after which an HTTP session is closed (ms) */
+  sessionIdleTimeoutMs: number;
+  /** Maximum concurrent HTTP sessions */
+  maxSessions: number;
+}
+
+/** PocketBase instance profile */
+export interface InstanceProfile {
+  /** Profile name */
+  name: string;
+  /** PocketBase instance URL */
+  url: string;
+  /** Environment variable holding an auth token applied to new sessions */
+  tokenEnv?: string;
+  /** Whether the instance is read-only */
+  readOnly: boolean;
+}
+
+/** Instance profiles configuration */
+export interface InstancesConfig {
+  /** Profile used when a tool call does not name an instance */
+  defaultInstance: string;
+  /** Profiles keyed by name */
+  instances: Record<string, InstanceProfile>;
+}
+
+/** Tool allowlist/denylist configuration */
+export interface ToolFilterConfig {
+  /** Glob patterns of tools to register (empty = all) */
+  include: string[];
+  /** Glob patterns of tools to skip */
+  exclude: string[];
+}
+
+/** Full pagination limits */
+export interface ListAllConfig {
+  /** Hard cap on records fetched by one call */
+  maxRecords: number;
+  /** Directory for results spilled to files */
+  spillDir: string;
+}
+
+/** Record import limits */
+export interface ImportConfig {
+  /** Hard cap on rows read by one call */
+  maxRows: number;
+  /** Directory import files must be in (null = any path, stdio only) */
+  importDir: string | null;
+}
+
+/** Audit log configuration */
+export interface AuditConfig {
+  /** JSONL file path (null = auditing disabled) */
+  path: string | null;
+  /** Rotate when the file would exceed this size in bytes */
+  maxSize: number;
+  /** Number of rotated files to keep */
+  maxFiles: number;
+}
+
+/** Audit log entry (one JSONL line) */
+export interface AuditEntry {
+  /** ISO timestamp of the invocation */
+  timestamp: string;
+  /** Tool name */
+  tool: string;
+  /** MCP session ID (null for stdio) */
+  sessionId: string | null;
+  /** Instance profile name, when resolvable */
+  instance: string | null;
+  /** Tool parameters with secrets redacted and large values omitted */
+  params: Record<string, unknown>;
+  /** Auth identity at invocation time */
+  identity: {
+    authType: 'admin' | 'user' | null;
+    id: string | null;
+    email: string | null;
+  } | null;
+  /** Duration in milliseconds */
+  durationMs: number;
+  /** Outcome of the invocation */
+  outcome: 'success' | 'error';
+  /** Error code when outcome is "error" */
+  errorCode?: string;
+}
+
 /** Authentication state */
 export interface AuthState {
   /** Whether currently authenticated */
@@ -68,8 +164,10 @@ export interface RecordListResult {
   totalPages: number;
   /** Whether more pages exist */
   hasMore: boolean;
-  /** Offset for next page */
-  nextOffset?: number;
+  /** Cursor for the next page (pass back as `cursor`) */
+  nextCursor?: string;
+  /** Why no cursor was returned, if more records may exist */
+  cursorNote?: string;
   /** Record data */
   items: Record<string, unknown>[];
 }
@@ -134,6 +232,8 @@ export interface ErrorResponse {
     suggestion?: string;
     /** Field-specific validation errors */
     fieldErrors?: Record<string, string>;
+    /** Current server values, when a write precondition failed */
+    current?: Record<string, unknown>;
   };
 }
 
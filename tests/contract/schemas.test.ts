@@ -13,10 +13,17 @@ import {
 } from '../../src/schemas/auth.js';
 import {
   ListRecordsInputSchema,
+  ListAllRecordsInputSchema,
   GetRecordInputSchema,
+  FindFirstRecordInputSchema,
+  RecordExistsInputSchema,
   CreateRecordInputSchema,
   UpdateRecordInputSchema,
+  UpsertRecordInputSchema,
   DeleteRecordInputSchema,
+  BatchInputSchema,
+  UpdateWhereInputSchema,
+  DeleteWhereInputSchema,
 } from '../../src/schemas/records.js';
 import {
   ListCollectionsInputSchema,
@@ -187,6 +194,47 @@ describe('Records Schemas Contract Tests', () => {
       }
     });
 
+    it('should accept instance profile name', () => {
+      const input = {
+        collection: 'posts',
+        instance: 'staging',
+      };
+      
+      const result = ListRecordsInputSchema.safeParse(input);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.instance).toBe('staging');
+      }
+    });
+
+    it('should accept a structured where tree', () => {
+      const result = ListRecordsInputSchema.safeParse({
+        collection: 'posts',
+        where: {
+          and: [
+            { field: 'status', op: '=', value: 'published' },
+            { or: [{ field: 'views', op: '>', value: 100 }, { field: 'tags:length', op: '>=', value: 2 }] },
+          ],
+        },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject where conditions with unsafe fields or unknown operators', () => {
+      const where = (condition: Record<string, unknown>) =>
+        ListRecordsInputSchema.safeParse({ collection: 'posts', where: { and: [condition] } }).success;
+
+      expect(where({ field: 'status = 1 || id', op: '=', value: 'x' })).toBe(false);
+      expect(where({ field: 'status', op: 'like', value: 'x' })).toBe(false);
+      expect(where({ field: 'status', op: '=', value: { nested: true } })).toBe(false);
+      expect(ListRecordsInputSchema.safeParse({ collection: 'posts', where: { and: [] } }).success).toBe(false);
+    });
+
+    it('should accept a cursor and reject an empty one', () => {
+      expect(ListRecordsInputSchema.safeParse({ collection: 'posts', sort: '-created', cursor: 'eyJ2IjoxfQ' }).success).toBe(true);
+      expect(ListRecordsInputSchema.safeParse({ collection: 'posts', cursor: '' }).success).toBe(false);
+    });
+
     it('should reject page less than 1', () => {
       const input = {
         collection: 'posts',
@@ -208,6 +256,23 @@ describe('Records Schemas Contract Tests', () => {
     });
   });
 
+  describe('ListAllRecordsInputSchema', () => {
+    it('should apply defaults', () => {
+      const result = ListAllRecordsInputSchema.safeParse({ collection: 'invoices' });
+      
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.pageSize).toBe(500);
+        expect(result.data.overflow).toBe('summary');
+      }
+    });
+
+    it('should reject unknown overflow modes', () => {
+      const result = ListAllRecordsInputSchema.safeParse({ collection: 'invoices', overflow: 'drop' });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('GetRecordInputSchema', () => {
     it('should accept collection and id', () => {
       const input = {
@@ -241,6 +306,34 @@ describe('Records Schemas Contract Tests', () => {
     });
   });
 
+  describe('FindFirstRecordInputSchema', () => {
+    it('should accept a filter with sort and fields', () => {
+      const result = FindFirstRecordInputSchema.safeParse({
+        collection: 'users',
+        filter: 'email="jane@example.com"',
+        sort: '-created',
+        fields: 'id,name',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a filter', () => {
+      expect(FindFirstRecordInputSchema.safeParse({ collection: 'users' }).success).toBe(false);
+      expect(FindFirstRecordInputSchema.safeParse({ collection: 'users', filter: '' }).success).toBe(false);
+    });
+  });
+
+  describe('RecordExistsInputSchema', () => {
+    it('should accept collection and filter only', () => {
+      expect(RecordExistsInputSchema.safeParse({ collection: 'users', filter: 'email="jane@example.com"' }).success).toBe(true);
+      expect(RecordExistsInputSchema.safeParse({
+        collection: 'users',
+        filter: 'email="jane@example.com"',
+        fields: 'id',
+      }).success).toBe(false);
+    });
+  });
+
   describe('CreateRecordInputSchema', () => {
     it('should accept collection and data', () => {
       const input = {
@@ -268,6 +361,20 @@ describe('Records Schemas Contract Tests', () => {
       }
     });
 
+    it('should accept dryRun', () => {
+      const input = {
+        collection: 'posts',
+        data: { title: 'Test' },
+        dryRun: true,
+      };
+      
+      const result = CreateRecordInputSchema.safeParse(input);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.dryRun).toBe(true);
+      }
+    });
+
     it('should reject missing data', () => {
       const input = {
         collection: 'posts',
@@ -315,6 +422,44 @@ describe('Records Schemas Contract Tests', () => {
       const result = UpdateRecordInputSchema.safeParse(input);
       expect(result.success).toBe(false);
     });
+ 
+    it('should accept jsonPatch operations without data', () => {
+      const input = {
+        collection: 'posts',
+        id: 'abc123',
+        jsonPatch: { meta: [{ op: 'add', path: '/tags/-', value: 'new' }] },
+      };
+      
+      const result = UpdateRecordInputSchema.safeParse(input);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.data).toEqual({});
+      }
+    });
+
+    it('should reject unknown JSON Patch operations', () => {
+      const input = {
+        collection: 'posts',
+        id: 'abc123',
+        jsonPatch: { meta: [{ op: 'merge', path: '/theme', value: 'dark' }] },
+      };
+      
+      const result = UpdateRecordInputSchema.safeParse(input);
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept ifUnmodifiedSince and expected preconditions', () => {
+      const input = {
+        collection: 'posts',
+        id: 'abc123',
+        data: { status: 'published' },
+        ifUnmodifiedSince: '2026-01-02 10:00:00.000Z',
+        expected: { status: 'draft' },
+      };
+      
+      const result = UpdateRecordInputSchema.safeParse(input);
+      expect(result.success).toBe(true);
+    });
   });
 
   describe('DeleteRecordInputSchema', () => {
@@ -328,6 +473,17 @@ describe('Records Schemas Contract Tests', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should accept confirmToken', () => {
+      const input = {
+        collection: 'posts',
+        id: 'abc123',
+        confirmToken: 'a1b2c3',
+      };
+      
+      const result = DeleteRecordInputSchema.safeParse(input);
+      expect(result.success).toBe(true);
+    });
+
     it('should reject empty id', () => {
       const input = {
         collection: 'posts',
@@ -338,6 +494,122 @@ describe('Records Schemas Contract Tests', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('UpsertRecordInputSchema', () => {
+    it('should accept matchOn fields', () => {
+      const input = {
+        collection: 'users',
+        matchOn: ['email'],
+        data: { email: 'a@example.com', name: 'Ann' },
+      };
+      
+      const result = UpsertRecordInputSchema.safeParse(input);
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept id', () => {
+      const input = {
+        collection: 'tags',
+        id: 'tag_news',
+        data: { name: 'News' },
+      };
+      
+      const result = UpsertRecordInputSchema.safeParse(input);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject empty matchOn', () => {
+      const input = {
+        collection: 'users',
+        matchOn: [],
+        data: { email: 'a@example.com' },
+      };
+      
+      const result = UpsertRecordInputSchema.safeParse(input);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('BatchInputSchema', () => {
+    it('should accept mixed operations', () => {
+      const input = {
+        operations: [
+          { action: 'create', collection: 'posts', data: { title: 'A' } },
+          { action: 'update', collection: 'posts', id: 'abc123', data: { title: 'B' } },
+          { action: 'upsert', collection: 'tags', data: { id: 'news', name: 'News' } },
+          { action: 'delete', collection: 'comments', id: 'def456' },
+        ],
+        chunkSize: 25,
+      };
+      
+      const result = BatchInputSchema.safeParse(input);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an empty operation list', () => {
+      const result = BatchInputSchema.safeParse({ operations: [] });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject update without id', () => {
+      const input = {
+        operations: [{ action: 'update', collection: 'posts', data: { title: 'B' } }],
+      };
+      
+      const result = BatchInputSchema.safeParse(input);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unknown actions', () => {
+      const input = {
+        operations: [{ action: 'truncate', collection: 'posts' }],
+      };
+      
+      const result = BatchInputSchema.safeParse(input);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('UpdateWhereInputSchema', () => {
+    it('should apply safety defaults', () => {
+      const result = UpdateWhereInputSchema.safeParse({
+        collection: 'orders',
+        filter: 'status="pending"',
+        data: { status: 'expired' },
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.maxAffected).toBe(100);
+        expect(result.data.sampleSize).toBe(5);
+      }
+    });
+
+    it('should require data and cap maxAffected', () => {
+      expect(UpdateWhereInputSchema.safeParse({ collection: 'orders', filter: 'x=1' }).success).toBe(false);
+      expect(UpdateWhereInputSchema.safeParse({
+        collection: 'orders',
+        filter: 'x=1',
+        data: {},
+        maxAffected: 5000,
+      }).success).toBe(false);
+    });
+  });
+
+  describe('DeleteWhereInputSchema', () => {
+    it('should accept a where tree and a confirm token', () => {
+      const result = DeleteWhereInputSchema.safeParse({
+        collection: 'sessions',
+        where: { field: 'expires', op: '<', value: '2026-01-01 00:00:00.000Z' },
+        confirmToken: 'abc',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject data', () => {
+      expect(DeleteWhereInputSchema.safeParse({ collection: 'sessions', filter: 'x=1', data: {} }).success).toBe(false);
+    });
+  });
 });
 
 describe('Collections Schemas Contract Tests', () => {
@@ -359,6 +631,11 @@ describe('Collections Schemas Contract Tests', () => {
       const result = ListCollectionsInputSchema.safeParse(input);
       expect(result.success).toBe(true);
     });
+
+    it('should accept a structured where condition', () => {
+      const result = ListCollectionsInputSchema.safeParse({ where: { field: 'type', op: '=', value: 'auth' } });
+      expect(result.success).toBe(true);
+    });
   });
 
   describe('GetCollectionInputSchema', () => {
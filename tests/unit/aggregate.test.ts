@@ -0,0 +1,95 @@
+/**
+ * Unit tests for streamed aggregations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseAggregates,
+  aggregateFields,
+  accumulate,
+  summarizeGroups,
+  type AggregateGroups,
+} from '../../src/services/aggregate.js';
+
+const orders = [
+  { status: 'paid', total: 30, created: '2026-01-02 10:00:00.000Z' },
+  { status: 'open', total: 10, created: '2026-01-01 10:00:00.000Z' },
+  { status: 'paid', total: '20', created: '2026-01-03 10:00:00.000Z' },
+  { status: 'paid', total: null, created: '2026-01-04 10:00:00.000Z' },
+];
+
+describe('parseAggregates', () => {
+  it('should parse functions, fields and aliases', () => {
+    expect(parseAggregates(['count', 'COUNT(*)', 'sum(total)', 'avg( total ) as average'])).toEqual([
+      { fn: 'count', field: undefined, alias: 'count' },
+      { fn: 'count', field: undefined, alias: 'count' },
+      { fn: 'sum', field: 'total', alias: 'sum_total' },
+      { fn: 'avg', field: 'total', alias: 'average' },
+    ]);
+  });
+
+  it('should report every invalid expression', () => {
+    try {
+      parseAggregates(['sum', 'count', 'median(total)']);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({
+        error: {
+          code: 'VALIDATION_ERROR',
+          fieldErrors: {
+            'aggregates[0]': 'Invalid aggregate "sum"',
+            'aggregates[2]': 'Invalid aggregate "median(total)"',
+          },
+        },
+      });
+    }
+  });
+});
+
+describe('aggregateFields', () => {
+  it('should request only group and aggregate fields', () => {
+    expect(aggregateFields(parseAggregates(['count', 'sum(total)']), ['status'])).toBe('status,total');
+    expect(aggregateFields(parseAggregates(['count']), [])).toBe('id');
+  });
+});
+
+describe('accumulate and summarizeGroups', () => {
+  it('should aggregate per group across pages', () => {
+    const specs = parseAggregates(['count', 'count(total)', 'sum(total)', 'avg(total)', 'min(created)', 'max(total)']);
+    const groups: AggregateGroups = new Map();
+
+    accumulate(groups, orders.slice(0, 2), specs, ['status']);
+    accumulate(groups, orders.slice(2), specs, ['status']);
+
+    expect(summarizeGroups(groups, specs, ['status'])).toEqual([
+      {
+        status: 'open',
+        count: 1,
+        count_total: 1,
+        sum_total: 10,
+        avg_total: 10,
+        min_created: '2026-01-01 10:00:00.000Z',
+        max_total: 10,
+      },
+      {
+        status: 'paid',
+        count: 3,
+        count_total: 2,
+        sum_total: 50,
+        avg_total: 25,
+        min_created: '2026-01-02 10:00:00.000Z',
+        max_total: 30,
+      },
+    ]);
+  });
+
+  it('should return a single row without group-by, even for no records', () => {
+    const specs = parseAggregates(['count', 'avg(total)']);
+    const groups: AggregateGroups = new Map();
+
+    expect(summarizeGroups(groups, specs, [])).toEqual([{ count: 0, avg_total: null }]);
+
+    accumulate(groups, orders, specs, []);
+    expect(summarizeGroups(groups, specs, [])).toEqual([{ count: 4, avg_total: 20 }]);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the audit log
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  redactParams,
+  omitLargeParams,
+  writeAuditEntry,
+  readAuditEntries,
+  queryAuditLog,
+} from '../../src/services/audit.js';
+import { createServer } from '../../src/server.js';
+import { resetClient } from '../../src/services/pocketbase.js';
+import type { AuditConfig, AuditEntry } from '../../src/types.js';
+
+/**
+ * Build an audit entry with defaults
+ */
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    timestamp: '2026-01-20T10:00:00.000Z',
+    tool: 'pocketbase_list_records',
+    sessionId: null,
+    instance: 'default',
+    params: {},
+    identity: null,
+    durationMs: 5,
+    outcome: 'success',
+    ...overrides,
+  };
+}
+
+/**
+ * Audit settings pointing at a fresh temp directory
+ */
+function tempConfig(overrides: Partial<AuditConfig> = {}): AuditConfig {
+  const dir = mkdtempSync(join(tmpdir(), 'pb-mcp-audit-'));
+  return { path: join(dir, 'audit.jsonl'), maxSize: 1024 * 1024, maxFiles: 2, ...overrides };
+}
+
+describe('redactParams', () => {
+  it('should redact secrets at any depth', () => {
+    expect(redactParams({
+      email: 'admin@example.com',
+      password: 'hunter2',
+      data: { passwordConfirm: 'hunter2', title: 'x' },
+      confirmToken: 'abc',
+    })).toEqual({
+      email: 'admin@example.com',
+      password: '[REDACTED]',
+      data: { passwordConfirm: '[REDACTED]', title: 'x' },
+      confirmToken: '[REDACTED]',
+    });
+  });
+});
+
+describe('omitLargeParams', () => {
+  it('should replace large values with their size', () => {
+    const text = 'x'.repeat(5000);
+    expect(omitLargeParams({ collection: 'posts', text, data: { title: 'short' } })).toEqual({
+      collection: 'posts',
+      text: '[OMITTED: 5002 bytes]',
+      data: { title: 'short' },
+    });
+  });
+});
+
+describe('writeAuditEntry', () => {
+  it('should do nothing when auditing is disabled', () => {
+    const config = tempConfig();
+    writeAuditEntry(entry({}), { ...config, path: null });
+
+    expect(existsSync(config.path!)).toBe(false);
+  });
+
+  it('should append JSONL lines', () => {
+    const config = tempConfig();
+    writeAuditEntry(entry({ tool: 'a' }), config);
+    writeAuditEntry(entry({ tool: 'b' }), config);
+
+    const lines = readFileSync(config.path!, 'utf8').trim().split('\n');
+    expect(lines.map(l => JSON.parse(l).tool)).toEqual(['a', 'b']);
+  });
+
+  it('should rotate by size and keep at most maxFiles rotated files', () => {
+    const line = JSON.stringify(entry({})).length + 1;
+    const config = tempConfig({ maxSize: line * 2, maxFiles: 2 });
+
+    for (let i = 0; i < 7; i++) {
+      writeAuditEntry(entry({ durationMs: i }), config);
+    }
+
+    expect(existsSync(`${config.path}.1`)).toBe(true);
+    expect(existsSync(`${config.path}.2`)).toBe(true);
+    expect(existsSync(`${config.path}.3`)).toBe(false);
+    expect(readAuditEntries(config).map(e => e.durationMs)).toEqual([6, 5, 4, 3, 2]);
+  });
+});
+
+describe('queryAuditLog', () => {
+  it('should filter by tool glob, outcome and time range, newest first', () => {
+    const config = tempConfig();
+    writeAuditEntry(entry({ tool: 'pocketbase_delete_record', timestamp: '2026-01-19T10:00:00.000Z' }), config);
+    writeAuditEntry(entry({ tool: 'pocketbase_delete_collection', outcome: 'error', errorCode: 'NOT_FOUND' }), config);
+    writeAuditEntry(entry({ tool: 'pocketbase_delete_record', timestamp: '2026-01-21T10:00:00.000Z' }), config);
+    writeAuditEntry(entry({ tool: 'pocketbase_list_records' }), config);
+
+    const deletes = queryAuditLog({ tool: 'pocketbase_delete_*', limit: 10 }, config);
+    expect(deletes.scanned).toBe(4);
+    expect(deletes.totalMatches).toBe(3);
+    expect(deletes.entries[0].timestamp).toBe('2026-01-21T10:00:00.000Z');
+
+    const failures = queryAuditLog({ outcome: 'error', limit: 10 }, config);
+    expect(failures.entries.map(e => e.errorCode)).toEqual(['NOT_FOUND']);
+
+    const recent = queryAuditLog({ tool: 'pocketbase_delete_record', since: '2026-01-20T00:00:00Z', limit: 10 }, config);
+    expect(recent.totalMatches).toBe(1);
+
+    const limited = queryAuditLog({ limit: 2 }, config);
+    expect(limited.entries).toHaveLength(2);
+    expect(limited.totalMatches).toBe(4);
+  });
+
+  it('should filter by session, with null matching stdio entries', () => {
+    const config = tempConfig();
+    writeAuditEntry(entry({ sessionId: 'a' }), config);
+    writeAuditEntry(entry({ sessionId: 'b' }), config);
+    writeAuditEntry(entry({ sessionId: null }), config);
+
+    expect(queryAuditLog({ sessionId: 'a', limit: 10 }, config).totalMatches).toBe(1);
+    expect(queryAuditLog({ sessionId: null, limit: 10 }, config).totalMatches).toBe(1);
+    expect(queryAuditLog({ limit: 10 }, config).totalMatches).toBe(3);
+  });
+});
+
+describe('auditTools', () => {
+  let config: AuditConfig;
+
+  beforeEach(() => {
+    config = tempConfig();
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    vi.stubEnv('POCKETBASE_MCP_AUDIT_LOG', config.path!);
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetClient();
+  });
+
+  it('should record each tool invocation and make it queryable', async () => {
+    const server = createServer();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await client.callTool({ name: 'pocketbase_list_instances', arguments: {} });
+    await client.callTool({ name: 'pocketbase_get_auth_status', arguments: { instance: 'missing' } });
+    const result = await client.callTool({
+      name: 'pocketbase_audit_query',
+      arguments: { format: 'json' },
+    });
+    await client.close();
+
+    const entries = readAuditEntries(config).slice(1);
+    expect(entries.map(e => e.tool)).toEqual([
+      'pocketbase_get_auth_status',
+      'pocketbase_list_instances',
+    ]);
+    expect(entries[0]).toMatchObject({ outcome: 'error', errorCode: 'NOT_FOUND', instance: null });
+    expect(entries[1]).toMatchObject({ outcome: 'success', instance: 'default' });
+    expect(entries[1].identity).toMatchObject({ authType: null });
+    expect(result.isError).toBeFalsy();
+    const text = (result.content as { text: string }[])[0].text;
+    expect(JSON.parse(text)).toMatchObject({ scanned: 2, totalMatches: 2 });
+  });
+
+  it('should limit non-superusers to their own session', async () => {
+    writeAuditEntry(entry({ sessionId: 'other', params: { data: { title: 'private' } } }), config);
+
+    const server = createServer();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const own = await client.callTool({ name: 'pocketbase_audit_query', arguments: { format: 'json' } });
+    const other = await client.callTool({
+      name: 'pocketbase_audit_query',
+      arguments: { sessionId: 'other', format: 'json' },
+    });
+    await client.close();
+
+    const text = (own.content as { text: string }[])[0].text;
+    expect(JSON.parse(text)).toMatchObject({ scanned: 1, totalMatches: 0 });
+    expect(other.isError).toBe(true);
+    expect((other.content as { text: string }[])[0].text).toContain('PERMISSION_DENIED');
+  });
+});
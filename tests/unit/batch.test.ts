@@ -0,0 +1,164 @@
+/**
+ * Unit tests for batch record operations
+ */
+
+import { describe, it, expect } from 'vitest';
+import type PocketBase from 'pocketbase';
+import { ClientResponseError } from 'pocketbase';
+import { chunkOperations, runBatch } from '../../src/services/batch.js';
+import type { BatchOperation } from '../../src/schemas/records.js';
+
+/**
+ * Build a fake client whose batch requests are answered by `respond`
+ * @param respond - Called per batch with the queued requests; returns results or throws
+ */
+function fakeClient(respond: (queued: string[]) => { status: number; body: unknown }[]) {
+  const sent: string[][] = [];
+  const pb = {
+    createBatch: () => {
+      const queued: string[] = [];
+      return {
+        collection: (name: string) => ({
+          create: (data: { title?: string }) => queued.push(`create ${name} ${data.title}`),
+          update: (id: string) => queued.push(`update ${name} ${id}`),
+          upsert: (data: { id?: string }) => queued.push(`upsert ${name} ${data.id}`),
+          delete: (id: string) => queued.push(`delete ${name} ${id}`),
+        }),
+        send: async () => {
+          sent.push(queued);
+          return respond(queued);
+        },
+      };
+    },
+  } as unknown as PocketBase;
+  return { pb, sent };
+}
+
+/**
+ * Echo each queued request as a created record
+ */
+function succeed(queued: string[]) {
+  return queued.map((request, i) => ({ status: 200, body: { id: `rec${i}`, request } }));
+}
+
+const operations: BatchOperation[] = [
+  { action: 'create', collection: 'posts', data: { title: 'a' } },
+  { action: 'update', collection: 'posts', id: 'p1', data: { title: 'b' } },
+  { action: 'upsert', collection: 'tags', data: { id: 't1' } },
+  { action: 'delete', collection: 'comments', id: 'c1' },
+  { action: 'create', collection: 'posts', data: { title: 'e' } },
+];
+
+describe('chunkOperations', () => {
+  it('should split into chunks of the given size', () => {
+    expect(chunkOperations([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunkOperations([1, 2], 5)).toEqual([[1, 2]]);
+  });
+});
+
+describe('runBatch', () => {
+  it('should send chunks in order and report per-operation results', async () => {
+    const { pb, sent } = fakeClient(succeed);
+    const progress: number[] = [];
+
+    const result = await runBatch(pb, operations, 2, committed => {
+      progress.push(committed);
+    });
+
+    expect(sent).toEqual([
+      ['create posts a', 'update posts p1'],
+      ['upsert tags t1', 'delete comments c1'],
+      ['create posts e'],
+    ]);
+    expect(progress).toEqual([2, 4, 5]);
+    expect(result.failure).toBeUndefined();
+    expect(result.chunksCommitted).toBe(3);
+    expect(result.results.map(r => [r.index, r.action, r.id])).toEqual([
+      [0, 'create', 'rec0'],
+      [1, 'update', 'rec1'],
+      [2, 'upsert', 'rec0'],
+      [3, 'delete', 'c1'],
+      [4, 'create', 'rec0'],
+    ]);
+    expect(result.results[3].record).toBeUndefined();
+  });
+
+  it('should map a failed request to its operation index and stop', async () => {
+    let call = 0;
+    const { pb, sent } = fakeClient(queued => {
+      if (++call === 1) return succeed(queued);
+      throw new ClientResponseError({
+        status: 400,
+        response: {
+          message: 'Batch transaction failed.',
+          data: {
+            requests: {
+              1: {
+                code: 'batch_request_failed',
+                message: 'Batch request failed.',
+                response: {
+                  status: 404,
+                  body: { message: 'The requested resource wasn\'t found.', data: {} },
+                },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    const result = await runBatch(pb, operations, 2);
+
+    expect(sent).toHaveLength(2);
+    expect(result.results).toHaveLength(2);
+    expect(result.chunksCommitted).toBe(1);
+    expect(result.notCommitted).toBe(3);
+    expect(result.failure).toEqual({
+      index: 3,
+      action: 'delete',
+      collection: 'comments',
+      id: 'c1',
+      message: 'The requested resource wasn\'t found.',
+    });
+  });
+
+  it('should report field errors of the failed operation', async () => {
+    const { pb } = fakeClient(() => {
+      throw new ClientResponseError({
+        status: 400,
+        response: {
+          message: 'Batch transaction failed.',
+          data: {
+            requests: {
+              0: {
+                response: {
+                  status: 400,
+                  body: {
+                    message: 'Failed to create record.',
+                    data: { title: { code: 'validation_required', message: 'Cannot be blank.' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    const result = await runBatch(pb, operations.slice(0, 1), 50);
+
+    expect(result.failure).toMatchObject({
+      index: 0,
+      message: 'Failed to create record.',
+      fieldErrors: { title: 'Cannot be blank.' },
+    });
+  });
+
+  it('should rethrow errors that are not caused by an operation', async () => {
+    const { pb } = fakeClient(() => {
+      throw new ClientResponseError({ status: 403, response: { message: 'Batched requests are not allowed.' } });
+    });
+
+    await expect(runBatch(pb, operations, 50)).rejects.toThrow(/not allowed/);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for update/delete by filter
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type PocketBase from 'pocketbase';
+import { ClientResponseError } from 'pocketbase';
+import { previewMatches, collectMatchingIds, applyToMatches } from '../../src/services/bulk.js';
+
+/**
+ * Build a fake client over `total` records (r0, r1, ...) whose batch
+ * requests fail at `failAt` (index within the whole run)
+ */
+function fakeClient(total: number, failAt?: number) {
+  const records = Array.from({ length: total }, (_, i) => ({ id: `r${i}`, title: `t${i}` }));
+  const getList = vi.fn(async (page: number, perPage: number) => ({
+    page,
+    perPage,
+    totalItems: total,
+    totalPages: Math.ceil(total / perPage),
+    items: records.slice((page - 1) * perPage, page * perPage),
+  }));
+
+  let sentCount = 0;
+  const pb = {
+    collection: () => ({ getList }),
+    createBatch: () => {
+      const queued: string[] = [];
+      return {
+        collection: () => ({
+          update: (id: string) => queued.push(id),
+          delete: (id: string) => queued.push(id),
+        }),
+        send: async () => {
+          const offset = sentCount;
+          sentCount += queued.length;
+          if (failAt !== undefined && failAt >= offset && failAt < sentCount) {
+            throw new ClientResponseError({
+              status: 400,
+              response: {
+                data: {
+                  requests: {
+                    [failAt - offset]: { response: { status: 400, body: { message: 'Failed to update record.' } } },
+                  },
+                },
+              },
+            });
+          }
+          return queued.map(id => ({ status: 200, body: { id } }));
+        },
+      };
+    },
+  } as unknown as PocketBase;
+  return { pb, getList };
+}
+
+describe('previewMatches', () => {
+  it('should report the matched count and a sample', async () => {
+    const { pb } = fakeClient(12);
+
+    const preview = await previewMatches(pb, 'posts', 'x = 1', 2, 100);
+
+    expect(preview.matched).toBe(12);
+    expect(preview.sample).toEqual([{ id: 'r0', title: 't0' }, { id: 'r1', title: 't1' }]);
+  });
+
+  it('should refuse when more records match than allowed', async () => {
+    const { pb } = fakeClient(12);
+
+    await expect(previewMatches(pb, 'posts', 'x = 1', 2, 10)).rejects.toMatchObject({
+      error: { code: 'VALIDATION_ERROR', message: 'Filter matches 12 records, more than maxAffected (10)' },
+    });
+  });
+});
+
+describe('collectMatchingIds', () => {
+  it('should collect every matching id', async () => {
+    const { pb, getList } = fakeClient(3);
+
+    expect(await collectMatchingIds(pb, 'posts', 'x = 1', 3)).toEqual(['r0', 'r1', 'r2']);
+    expect(getList).toHaveBeenCalledWith(1, 500, { filter: 'x = 1', sort: 'id', fields: 'id' });
+  });
+
+  it('should refuse when more records match than allowed', async () => {
+    const { pb } = fakeClient(4);
+
+    await expect(collectMatchingIds(pb, 'posts', 'x = 1', 3)).rejects.toMatchObject({
+      error: { message: 'Filter matches 4 records, more than maxAffected (3)' },
+    });
+  });
+});
+
+describe('applyToMatches', () => {
+  const ids = ['r0', 'r1', 'r2', 'r3', 'r4'];
+
+  it('should apply every operation in chunks with progress', async () => {
+    const { pb } = fakeClient(5);
+    const progress: number[] = [];
+
+    const result = await applyToMatches(pb, ids, id => ({ action: 'delete', collection: 'posts', id }), 2, committed => {
+      progress.push(committed);
+    });
+
+    expect(progress).toEqual([2, 4, 5]);
+    expect(result).toEqual({ success: true, matched: 5, succeeded: ids, failed: [], notApplied: [], chunks: 3 });
+  });
+
+  it('should list succeeded, failed and not applied ids', async () => {
+    const { pb } = fakeClient(5, 3);
+
+    const result = await applyToMatches(pb, ids, id => ({ action: 'update', collection: 'posts', id, data: {} }), 2);
+
+    expect(result).toEqual({
+      success: false,
+      matched: 5,
+      succeeded: ['r0', 'r1'],
+      failed: [{ id: 'r3', message: 'Failed to update record.' }],
+      notApplied: ['r2', 'r4'],
+      chunks: 3,
+    });
+  });
+});
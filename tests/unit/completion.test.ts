@@ -0,0 +1,123 @@
+/**
+ * Unit tests for argument completions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type PocketBase from 'pocketbase';
+import {
+  matchCompletions,
+  closestMatch,
+  completeCollectionName,
+  completeFieldNames,
+  invalidateCollectionCache,
+  suggestCollectionName,
+} from '../../src/services/completion.js';
+
+/**
+ * Build a fake superuser client with the given collections
+ */
+function fakeClient(isSuperuser = true) {
+  const getFullList = vi.fn().mockResolvedValue([
+    {
+      name: 'posts',
+      fields: [
+        { name: 'id', type: 'text' },
+        { name: 'title', type: 'text' },
+        { name: 'author', type: 'relation' },
+        { name: 'tags', type: 'relation' },
+        { name: 'created', type: 'autodate' },
+      ],
+    },
+    { name: 'post_tags', fields: [] },
+    { name: 'users', fields: [] },
+  ]);
+  const pb = { authStore: { isSuperuser }, collections: { getFullList } } as unknown as PocketBase;
+  return { pb, getFullList };
+}
+
+describe('matchCompletions', () => {
+  it('should list prefix matches before substring matches', () => {
+    expect(matchCompletions('po', ['users', 'posts', 'blog_posts', 'post_tags'])).toEqual([
+      'posts',
+      'post_tags',
+      'blog_posts',
+    ]);
+  });
+
+  it('should be case-insensitive and return everything for an empty value', () => {
+    expect(matchCompletions('US', ['users', 'posts'])).toEqual(['users']);
+    expect(matchCompletions('', ['users', 'posts'])).toEqual(['users', 'posts']);
+  });
+});
+
+describe('closestMatch', () => {
+  it('should find close typos', () => {
+    expect(closestMatch('psots', ['users', 'posts', 'comments'])).toBe('posts');
+    expect(closestMatch('Users', ['users', 'posts'])).toBe('users');
+  });
+
+  it('should not suggest unrelated names', () => {
+    expect(closestMatch('invoices', ['users', 'posts'])).toBeNull();
+  });
+});
+
+describe('completeCollectionName', () => {
+  it('should complete from the cached collection list', async () => {
+    invalidateCollectionCache();
+    const { pb, getFullList } = fakeClient();
+
+    expect(await completeCollectionName(pb, 'po')).toEqual(['posts', 'post_tags']);
+    expect(await completeCollectionName(pb, 'u')).toEqual(['users']);
+    expect(getFullList).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reload after invalidation', async () => {
+    invalidateCollectionCache();
+    const { pb, getFullList } = fakeClient();
+
+    await completeCollectionName(pb, 'po');
+    invalidateCollectionCache();
+    await completeCollectionName(pb, 'po');
+
+    expect(getFullList).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return nothing without admin authentication or client', async () => {
+    const { pb, getFullList } = fakeClient(false);
+
+    expect(await completeCollectionName(pb, '')).toEqual([]);
+    expect(await completeCollectionName(null, '')).toEqual([]);
+    expect(getFullList).not.toHaveBeenCalled();
+  });
+});
+
+describe('completeFieldNames', () => {
+  it('should complete the last entry of a comma-separated list', async () => {
+    const { pb } = fakeClient();
+
+    expect(await completeFieldNames(pb, 'posts', 'title,-cr')).toEqual(['title,-created']);
+    expect(await completeFieldNames(pb, 'posts', 'a')).toEqual(['author', 'tags', 'created']);
+  });
+
+  it('should restrict suggestions to field types', async () => {
+    const { pb } = fakeClient();
+
+    expect(await completeFieldNames(pb, 'posts', '', ['relation'])).toEqual(['author', 'tags']);
+  });
+
+  it('should return nothing for unknown collections', async () => {
+    const { pb } = fakeClient();
+
+    expect(await completeFieldNames(pb, 'missing', '')).toEqual([]);
+    expect(await completeFieldNames(pb, undefined, '')).toEqual([]);
+  });
+});
+
+describe('suggestCollectionName', () => {
+  it('should suggest a close collection name', async () => {
+    const { pb } = fakeClient();
+
+    expect(await suggestCollectionName(pb, 'post')).toBe('Collection "post" does not exist. Did you mean "posts"?');
+    expect(await suggestCollectionName(pb, 'posts')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for optimistic write preconditions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type PocketBase from 'pocketbase';
+import { checkPreconditions, requirePreconditions } from '../../src/services/concurrency.js';
+
+const record = {
+  id: 'abc123',
+  status: 'draft',
+  tags: ['a', 'b'],
+  meta: { author: 'ann', layout: { columns: 2, wide: true } },
+  updated: '2026-01-02 10:00:00.000Z',
+};
+
+describe('checkPreconditions', () => {
+  it('should pass when the record was not modified since the given time', () => {
+    expect(checkPreconditions(record, { ifUnmodifiedSince: '2026-01-02 10:00:00.000Z' })).toEqual({});
+    expect(checkPreconditions(record, { ifUnmodifiedSince: '2026-01-02T10:00:00.000Z' })).toEqual({});
+    expect(checkPreconditions(record, { ifUnmodifiedSince: '2026-01-03 00:00:00.000Z' })).toEqual({});
+  });
+
+  it('should report a record modified after the given time', () => {
+    const problems = checkPreconditions(record, { ifUnmodifiedSince: '2026-01-02 09:59:59.999Z' });
+    expect(problems.updated).toContain('Modified at 2026-01-02 10:00:00.000Z');
+  });
+
+  it('should report records without an updated field', () => {
+    const problems = checkPreconditions({ id: 'abc123' }, { ifUnmodifiedSince: '2026-01-02 10:00:00.000Z' });
+    expect(problems.updated).toContain('expected');
+  });
+
+  it('should compare expected values deeply', () => {
+    expect(checkPreconditions(record, { expected: { status: 'draft', tags: ['a', 'b'] } })).toEqual({});
+    expect(checkPreconditions(record, { expected: { status: 'published', missing: 1 } })).toEqual({
+      status: 'Expected "published", found "draft"',
+      missing: 'Expected 1, found null',
+    });
+  });
+
+  it('should ignore key order in expected json values', () => {
+    expect(checkPreconditions(record, { expected: { meta: { layout: { wide: true, columns: 2 }, author: 'ann' } } }))
+      .toEqual({});
+    expect(checkPreconditions(record, { expected: { meta: { author: 'ann' } } }).meta).toContain('Expected');
+  });
+});
+
+describe('requirePreconditions', () => {
+  function fakeClient() {
+    const getOne = vi.fn(async () => ({ ...record }));
+    return { pb: { collection: () => ({ getOne }) } as unknown as PocketBase, getOne };
+  }
+
+  it('should return the current record when the preconditions hold', async () => {
+    const { pb, getOne } = fakeClient();
+    const current = await requirePreconditions(pb, 'posts', 'abc123', { expected: { status: 'draft' } });
+    expect(getOne).toHaveBeenCalledWith('abc123');
+    expect(current.status).toBe('draft');
+  });
+
+  it('should throw a CONFLICT error with the current values', async () => {
+    const { pb } = fakeClient();
+    await expect(requirePreconditions(pb, 'posts', 'abc123', { expected: { status: 'published' } }))
+      .rejects.toMatchObject({
+        error: {
+          code: 'CONFLICT',
+          fieldErrors: { status: 'Expected "published", found "draft"' },
+          current: record,
+        },
+      });
+  });
+});
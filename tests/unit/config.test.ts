@@ -0,0 +1,251 @@
+/**
+ * Unit tests for server configuration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getTransportConfig, parseConfigFile, loadInstancesConfig, loadToolFilterConfig, loadAuditConfig, getListAllConfig, getImportConfig } from '../../src/config.js';
+import {
+  DEFAULT_AUDIT_MAX_FILES,
+  DEFAULT_AUDIT_MAX_SIZE,
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  DEFAULT_IMPORT_MAX_ROWS,
+  DEFAULT_INSTANCE,
+  DEFAULT_LIST_ALL_MAX_RECORDS,
+  DEFAULT_MAX_SESSIONS,
+  DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+} from '../../src/constants.js';
+
+describe('getTransportConfig', () => {
+  it('should default to stdio transport', () => {
+    const config = getTransportConfig({});
+    
+    expect(config.type).toBe('stdio');
+    expect(config.host).toBe(DEFAULT_HTTP_HOST);
+    expect(config.port).toBe(DEFAULT_HTTP_PORT);
+    expect(config.authToken).toBeNull();
+    expect(config.sessionIdleTimeoutMs).toBe(DEFAULT_SESSION_IDLE_TIMEOUT_MS);
+    expect(config.maxSessions).toBe(DEFAULT_MAX_SESSIONS);
+  });
+
+  it('should read http transport settings', () => {
+    const config = getTransportConfig({
+      POCKETBASE_MCP_TRANSPORT: 'HTTP',
+      POCKETBASE_MCP_HOST: '0.0.0.0',
+      POCKETBASE_MCP_PORT: '8080',
+      POCKETBASE_MCP_AUTH_TOKEN: 'secret',
+      POCKETBASE_MCP_SESSION_TIMEOUT: '600',
+      POCKETBASE_MCP_MAX_SESSIONS: '20',
+    });
+    
+    expect(config.type).toBe('http');
+    expect(config.host).toBe('0.0.0.0');
+    expect(config.port).toBe(8080);
+    expect(config.authToken).toBe('secret');
+    expect(config.sessionIdleTimeoutMs).toBe(600 * 1000);
+    expect(config.maxSessions).toBe(20);
+  });
+
+  it('should reject unknown transport', () => {
+    expect(() => getTransportConfig({ POCKETBASE_MCP_TRANSPORT: 'websocket' })).toThrow(/POCKETBASE_MCP_TRANSPORT/);
+  });
+
+  it('should reject invalid port', () => {
+    expect(() => getTransportConfig({ POCKETBASE_MCP_PORT: 'abc' })).toThrow(/POCKETBASE_MCP_PORT/);
+    expect(() => getTransportConfig({ POCKETBASE_MCP_PORT: '70000' })).toThrow(/POCKETBASE_MCP_PORT/);
+  });
+
+  it('should reject invalid session limits', () => {
+    expect(() => getTransportConfig({ POCKETBASE_MCP_SESSION_TIMEOUT: '0' })).toThrow(/POCKETBASE_MCP_SESSION_TIMEOUT/);
+    expect(() => getTransportConfig({ POCKETBASE_MCP_MAX_SESSIONS: 'many' })).toThrow(/POCKETBASE_MCP_MAX_SESSIONS/);
+  });
+});
+
+describe('parseConfigFile', () => {
+  it('should parse JSON config', () => {
+    const config = parseConfigFile(
+      JSON.stringify({ instances: { dev: { url: 'http://localhost:8090' } } }),
+      'config.json'
+    );
+    
+    expect(config.instances.dev.url).toBe('http://localhost:8090');
+    expect(config.instances.dev.readOnly).toBe(false);
+  });
+
+  it('should parse TOML config', () => {
+    const config = parseConfigFile(
+      `defaultInstance = "prod"
+
+[instances.prod]
+url = "https://pb.example.com"
+tokenEnv = "PB_PROD_TOKEN"
+readOnly = true
+`,
+      'config.toml'
+    );
+    
+    expect(config.defaultInstance).toBe('prod');
+    expect(config.instances.prod.tokenEnv).toBe('PB_PROD_TOKEN');
+    expect(config.instances.prod.readOnly).toBe(true);
+  });
+
+  it('should reject invalid url', () => {
+    expect(() => parseConfigFile(
+      JSON.stringify({ instances: { dev: { url: 'not a url' } } }),
+      'config.json'
+    )).toThrow(/instances\.dev\.url/);
+  });
+
+  it('should reject unparseable contents', () => {
+    expect(() => parseConfigFile('{', 'config.json')).toThrow(/Cannot parse/);
+  });
+});
+
+describe('loadInstancesConfig', () => {
+  it('should build default instance from POCKETBASE_URL', () => {
+    const config = loadInstancesConfig({ POCKETBASE_URL: 'http://localhost:8090' });
+    
+    expect(config.defaultInstance).toBe(DEFAULT_INSTANCE);
+    expect(config.instances[DEFAULT_INSTANCE].url).toBe('http://localhost:8090');
+  });
+
+  it('should have no instances without POCKETBASE_URL or config file', () => {
+    const config = loadInstancesConfig({});
+    
+    expect(config.instances).toEqual({});
+  });
+
+  it('should load profiles from config file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pb-mcp-'));
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify({
+      instances: {
+        dev: { url: 'http://localhost:8090' },
+        prod: { url: 'https://pb.example.com', readOnly: true },
+      },
+    }));
+    
+    const config = loadInstancesConfig({ POCKETBASE_MCP_CONFIG: path });
+    
+    expect(config.defaultInstance).toBe('dev');
+    expect(config.instances.prod).toEqual({ name: 'prod', url: 'https://pb.example.com', readOnly: true });
+  });
+
+  it('should reject unknown defaultInstance', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pb-mcp-'));
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify({
+      defaultInstance: 'staging',
+      instances: { dev: { url: 'http://localhost:8090' } },
+    }));
+    
+    expect(() => loadInstancesConfig({ POCKETBASE_MCP_CONFIG: path })).toThrow(/staging/);
+  });
+
+  it('should reject missing config file', () => {
+    expect(() => loadInstancesConfig({ POCKETBASE_MCP_CONFIG: '/nonexistent/config.json' })).toThrow(/Cannot read/);
+  });
+});
+
+describe('loadToolFilterConfig', () => {
+  it('should default to no filters', () => {
+    expect(loadToolFilterConfig({})).toEqual({ include: [], exclude: [] });
+  });
+
+  it('should read comma-separated patterns from env', () => {
+    const config = loadToolFilterConfig({
+      POCKETBASE_MCP_INCLUDE_TOOLS: 'pocketbase_list_*, pocketbase_get_*',
+      POCKETBASE_MCP_EXCLUDE_TOOLS: 'pocketbase_*_backup',
+    });
+    
+    expect(config.include).toEqual(['pocketbase_list_*', 'pocketbase_get_*']);
+    expect(config.exclude).toEqual(['pocketbase_*_backup']);
+  });
+
+  it('should read patterns from config file with env taking precedence', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pb-mcp-'));
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify({
+      instances: { dev: { url: 'http://localhost:8090' } },
+      tools: { include: ['pocketbase_*'], exclude: ['pocketbase_*_backup'] },
+    }));
+    
+    const config = loadToolFilterConfig({
+      POCKETBASE_MCP_CONFIG: path,
+      POCKETBASE_MCP_EXCLUDE_TOOLS: '',
+    });
+    
+    expect(config.include).toEqual(['pocketbase_*']);
+    expect(config.exclude).toEqual([]);
+  });
+});
+
+describe('loadAuditConfig', () => {
+  it('should be disabled by default', () => {
+    expect(loadAuditConfig({})).toEqual({
+      path: null,
+      maxSize: DEFAULT_AUDIT_MAX_SIZE,
+      maxFiles: DEFAULT_AUDIT_MAX_FILES,
+    });
+  });
+
+  it('should read settings from config file with env taking precedence', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pb-mcp-'));
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify({
+      instances: { dev: { url: 'http://localhost:8090' } },
+      audit: { path: '/var/log/pb-mcp/audit.jsonl', maxSize: 1024, maxFiles: 2 },
+    }));
+    
+    const config = loadAuditConfig({
+      POCKETBASE_MCP_CONFIG: path,
+      POCKETBASE_MCP_AUDIT_MAX_FILES: '0',
+    });
+    
+    expect(config).toEqual({ path: '/var/log/pb-mcp/audit.jsonl', maxSize: 1024, maxFiles: 0 });
+  });
+
+  it('should reject invalid sizes', () => {
+    expect(() => loadAuditConfig({ POCKETBASE_MCP_AUDIT_MAX_SIZE: '10MB' })).toThrow(/POCKETBASE_MCP_AUDIT_MAX_SIZE/);
+  });
+});
+
+describe('getListAllConfig', () => {
+  it('should default the record cap and spill directory', () => {
+    const config = getListAllConfig({});
+    
+    expect(config.maxRecords).toBe(DEFAULT_LIST_ALL_MAX_RECORDS);
+    expect(config.spillDir).toContain('pocketbase-mcp');
+  });
+
+  it('should read settings from env', () => {
+    expect(getListAllConfig({
+      POCKETBASE_MCP_LIST_ALL_MAX: '500',
+      POCKETBASE_MCP_SPILL_DIR: '/data/spill',
+    })).toEqual({ maxRecords: 500, spillDir: '/data/spill' });
+  });
+
+  it('should reject an invalid cap', () => {
+    expect(() => getListAllConfig({ POCKETBASE_MCP_LIST_ALL_MAX: '0' })).toThrow(/POCKETBASE_MCP_LIST_ALL_MAX/);
+  });
+});
+
+describe('getImportConfig', () => {
+  it('should default the row cap and allow any directory', () => {
+    expect(getImportConfig({})).toEqual({ maxRows: DEFAULT_IMPORT_MAX_ROWS, importDir: null });
+  });
+
+  it('should read settings from env', () => {
+    expect(getImportConfig({
+      POCKETBASE_MCP_IMPORT_MAX_ROWS: '200',
+      POCKETBASE_MCP_IMPORT_DIR: '/data/imports',
+    })).toEqual({ maxRows: 200, importDir: '/data/imports' });
+  });
+
+  it('should reject an invalid cap', () => {
+    expect(() => getImportConfig({ POCKETBASE_MCP_IMPORT_MAX_ROWS: 'lots' })).toThrow(/POCKETBASE_MCP_IMPORT_MAX_ROWS/);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for destructive-operation confirmations
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  issueConfirmation,
+  requestConfirmation,
+  consumeConfirmation,
+  resetConfirmations,
+} from '../../src/services/confirmation.js';
+import { isErrorResponse } from '../../src/services/pocketbase.js';
+import { CONFIRMATION_TTL_MS } from '../../src/constants.js';
+
+const scope = {
+  sessionId: 'session-a',
+  tool: 'pocketbase_delete_record',
+  target: 'default/posts/abc123',
+};
+
+describe('confirmations', () => {
+  beforeEach(() => {
+    resetConfirmations();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should accept a token for the same scope', () => {
+    const { confirmToken } = issueConfirmation(scope);
+    
+    expect(() => consumeConfirmation(confirmToken, scope)).not.toThrow();
+  });
+
+  it('should only accept a token once', () => {
+    const { confirmToken } = issueConfirmation(scope);
+    consumeConfirmation(confirmToken, scope);
+    
+    expect(() => consumeConfirmation(confirmToken, scope)).toThrow();
+  });
+
+  it('should reject a token from another session or target', () => {
+    const { confirmToken } = issueConfirmation(scope);
+    
+    expect(() => consumeConfirmation(confirmToken, { ...scope, sessionId: 'session-b' })).toThrow();
+    expect(() => consumeConfirmation(confirmToken, { ...scope, target: 'default/posts/other' })).toThrow();
+    expect(() => consumeConfirmation(confirmToken, { ...scope, tool: 'pocketbase_delete_collection' })).toThrow();
+  });
+
+  it('should reject unknown tokens with VALIDATION_ERROR', () => {
+    try {
+      consumeConfirmation('nope', scope);
+      expect.unreachable();
+    } catch (error) {
+      expect(isErrorResponse(error)).toBe(true);
+      if (isErrorResponse(error)) {
+        expect(error.error.code).toBe('VALIDATION_ERROR');
+      }
+    }
+  });
+
+  it('should reject expired tokens', () => {
+    vi.useFakeTimers();
+    const { confirmToken } = issueConfirmation(scope);
+    
+    vi.advanceTimersByTime(CONFIRMATION_TTL_MS + 1);
+    
+    expect(() => consumeConfirmation(confirmToken, scope)).toThrow();
+  });
+
+  it('should build a preview response with a usable token', () => {
+    const output = requestConfirmation(scope, { action: 'delete_record', impact: { cascadeDeletes: 2 } });
+    
+    expect(output.confirmationRequired).toBe(true);
+    expect(output.impact).toEqual({ cascadeDeletes: 2 });
+    expect(typeof output.confirmToken).toBe('string');
+    expect(() => consumeConfirmation(output.confirmToken as string, scope)).not.toThrow();
+  });
+});
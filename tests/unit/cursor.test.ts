@@ -0,0 +1,79 @@
+/**
+ * Unit tests for cursor pagination tokens
+ */
+
+import { describe, it, expect } from 'vitest';
+import PocketBase from 'pocketbase';
+import {
+  parseSortKeys,
+  formatSortKeys,
+  missingFields,
+  encodeCursor,
+  resolveCursor,
+} from '../../src/services/cursor.js';
+
+const pb = new PocketBase('http://127.0.0.1:8090');
+
+describe('parseSortKeys', () => {
+  it('should append an id tiebreaker', () => {
+    const keys = parseSortKeys('-created, +title');
+    expect(keys).toEqual([
+      { field: 'created', desc: true },
+      { field: 'title', desc: false },
+      { field: 'id', desc: false },
+    ]);
+    expect(formatSortKeys(keys!)).toBe('-created,title,id');
+    expect(formatSortKeys(parseSortKeys('-id')!)).toBe('-id');
+  });
+
+  it('should reject keys that cannot be compared in a filter', () => {
+    expect(parseSortKeys('author.name')).toBeNull();
+    expect(parseSortKeys('@random')).toBeNull();
+  });
+});
+
+describe('missingFields', () => {
+  it('should list sort keys that are not selected', () => {
+    const keys = parseSortKeys('-created')!;
+    expect(missingFields('title,body:excerpt(100)', keys)).toEqual(['created', 'id']);
+    expect(missingFields('id,created', keys)).toEqual([]);
+    expect(missingFields('*', keys)).toEqual([]);
+  });
+});
+
+describe('resolveCursor', () => {
+  const keys = parseSortKeys('-created')!;
+  const last = { id: 'abc123', created: '2024-01-02 10:00:00.000Z', title: 'x' };
+
+  it('should turn a cursor into a keyset filter', () => {
+    const cursor = encodeCursor(keys, undefined, last);
+
+    expect(resolveCursor(pb, cursor, '-created', undefined)).toEqual({
+      sort: '-created,id',
+      filter: "created < '2024-01-02 10:00:00.000Z' || (created = '2024-01-02 10:00:00.000Z' && id > 'abc123')",
+    });
+  });
+
+  it('should combine the keyset filter with the original filter', () => {
+    const cursor = encodeCursor(keys, 'status = "open"', last);
+
+    const { filter } = resolveCursor(pb, cursor, '-created', 'status = "open"');
+    expect(filter.startsWith('(status = "open") && (created <')).toBe(true);
+  });
+
+  it('should reject cursors for another sort or filter', () => {
+    const cursor = encodeCursor(keys, 'status = "open"', last);
+
+    expect(() => resolveCursor(pb, cursor, 'created', 'status = "open"')).toThrow();
+    expect(() => resolveCursor(pb, cursor, '-created', 'status = "closed"')).toThrow();
+  });
+
+  it('should reject malformed cursors', () => {
+    try {
+      resolveCursor(pb, 'not-a-cursor', '-created', undefined);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({ error: { code: 'VALIDATION_ERROR', message: 'Invalid cursor' } });
+    }
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for diff helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffValues, diffCollectionFields, isEqualValue } from '../../src/services/diff.js';
+
+describe('isEqualValue', () => {
+  it('should compare nested values', () => {
+    expect(isEqualValue({ a: [1, 2] }, { a: [1, 2] })).toBe(true);
+    expect(isEqualValue({ a: [1, 2] }, { a: [2, 1] })).toBe(false);
+    expect(isEqualValue(undefined, null)).toBe(true);
+    expect(isEqualValue({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 3, c: 2 }, a: 1 })).toBe(true);
+    expect(isEqualValue({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+  });
+});
+
+describe('diffValues', () => {
+  it('should report only changed keys of the new object', () => {
+    const changes = diffValues(
+      { title: 'Old', status: 'draft', views: 1 },
+      { title: 'New', status: 'draft' }
+    );
+    
+    expect(changes).toEqual({ title: { from: 'Old', to: 'New' } });
+  });
+
+  it('should report added keys as changes from null', () => {
+    expect(diffValues({}, { tags: ['a'] })).toEqual({ tags: { from: null, to: ['a'] } });
+  });
+});
+
+describe('diffCollectionFields', () => {
+  it('should report added, removed and changed fields', () => {
+    const diff = diffCollectionFields(
+      [
+        { id: 'f1', name: 'title', type: 'text', required: false, system: false },
+        { id: 'f2', name: 'body', type: 'editor', required: false },
+      ],
+      [
+        { name: 'title', type: 'text', required: true },
+        { name: 'status', type: 'select', required: false, values: ['draft'] },
+      ]
+    );
+    
+    expect(diff.added).toEqual([{ name: 'status', type: 'select', required: false, values: ['draft'] }]);
+    expect(diff.removed).toEqual(['body']);
+    expect(diff.changed).toEqual({ title: { required: { from: false, to: true } } });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for local filter parsing and validation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import PocketBase from 'pocketbase';
+import {
+  parseFilter,
+  validateFilterNames,
+  checkFilter,
+  compileWhere,
+  combineFilters,
+} from '../../src/services/filter.js';
+import { invalidateCollectionCache } from '../../src/services/completion.js';
+
+const posts = {
+  name: 'posts',
+  fields: [
+    { name: 'id', type: 'text' },
+    { name: 'title', type: 'text' },
+    { name: 'status', type: 'select' },
+    { name: 'tags', type: 'select' },
+    { name: 'author', type: 'relation' },
+    { name: 'created', type: 'autodate' },
+  ],
+};
+const users = { name: 'users', fields: [{ name: 'email', type: 'email' }] };
+const comments = { name: 'comments', fields: [{ name: 'post', type: 'relation' }] };
+
+/**
+ * Parse a filter and return the thrown error
+ */
+function parseError(filter: string): unknown {
+  try {
+    parseFilter(filter);
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`Expected "${filter}" to be rejected`);
+}
+
+describe('parseFilter', () => {
+  it('should parse operators, logic and grouping', () => {
+    const node = parseFilter('(status = "open" || status ?!= \'draft\') && created >= @todayStart');
+
+    expect(node).toMatchObject({
+      type: 'logical',
+      operator: '&&',
+      left: {
+        type: 'logical',
+        operator: '||',
+        left: { type: 'comparison', operator: '=', left: { type: 'field', path: 'status' }, right: { value: 'open' } },
+        right: { type: 'comparison', operator: '?!=' },
+      },
+      right: { type: 'comparison', operator: '>=', right: { type: 'macro', name: '@todayStart' } },
+    });
+  });
+
+  it('should parse modifiers, params, functions, literals and comments', () => {
+    const node = parseFilter([
+      'tags:length > 2 // at least three',
+      '&& title ~ {:term}',
+      '&& geoDistance(lon, lat, 23.3, 42.7) < 25',
+      '&& author.verified = true && id != null',
+    ].join('\n'));
+
+    expect(node.type).toBe('logical');
+    expect(() => parseFilter('@request.auth.id != "" && @collection.users:u.email = "a@b.c"')).not.toThrow();
+  });
+
+  it('should report syntax errors with their column', () => {
+    expect(parseError('status = "open')).toMatchObject({
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid filter at column 10: Unterminated string' },
+    });
+    expect(parseError('status = "open" & x = 1')).toMatchObject({
+      error: { message: 'Invalid filter at column 17: Unexpected "&" (use && or ||)' },
+    });
+    expect(parseError('(status = "open"')).toMatchObject({
+      error: { message: 'Invalid filter at column 1: Unclosed "("' },
+    });
+    expect(parseError('status "open"')).toMatchObject({
+      error: { message: 'Invalid filter at column 8: Expected an operator (= != > >= < <= ~ !~) but found ""open""' },
+    });
+    expect(parseError('status =')).toMatchObject({
+      error: { message: 'Invalid filter at column 9: Unexpected end of filter, expected a field or value' },
+    });
+  });
+
+  it('should mark the error position in the suggestion', () => {
+    expect(parseError('a = 1 b = 2')).toMatchObject({
+      error: { suggestion: 'Problem marked with ^:\na = 1 b = 2\n      ^' },
+    });
+  });
+});
+
+describe('validateFilterNames', () => {
+  it('should accept known fields, macros and back-relations', () => {
+    const node = parseFilter('status = "open" && author.email != "" && comments_via_post.id != "" && created < @now');
+
+    expect(validateFilterNames(node, posts, [posts, users, comments])).toEqual([]);
+  });
+
+  it('should report every unknown name with suggestions', () => {
+    const node = parseFilter('stauts = "open" && tags:lenght > 1 && created > @yesteday && @collection.usres.email = ""');
+
+    expect(validateFilterNames(node, posts, [posts, users])).toEqual([
+      { column: 1, message: 'Unknown field "stauts" in "posts". Did you mean "status"?' },
+      { column: 20, message: 'Unknown modifier ":lenght". Did you mean "length"?' },
+      { column: 49, message: 'Unknown macro "@yesteday". Did you mean "@yesterday"?' },
+      { column: 62, message: 'Unknown collection "usres". Did you mean "users"?' },
+    ]);
+  });
+});
+
+describe('checkFilter', () => {
+  it('should validate names when the schema is readable', async () => {
+    invalidateCollectionCache();
+    const getFullList = vi.fn().mockResolvedValue([posts, users]);
+    const pb = { authStore: { isSuperuser: true }, collections: { getFullList } } as unknown as PocketBase;
+
+    await expect(checkFilter(pb, 'posts', 'title = "x"')).resolves.toBeUndefined();
+    await expect(checkFilter(pb, 'posts', 'titel = "x" || statu = "y"')).rejects.toMatchObject({
+      error: {
+        message: 'Invalid filter at column 1: Unknown field "titel" in "posts". Did you mean "title"?',
+        fieldErrors: {
+          'filter:1': 'Unknown field "titel" in "posts". Did you mean "title"?',
+          'filter:16': 'Unknown field "statu" in "posts". Did you mean "status"?',
+        },
+      },
+    });
+  });
+
+  it('should only check syntax without admin authentication', async () => {
+    const getFullList = vi.fn();
+    const pb = { authStore: { isSuperuser: false }, collections: { getFullList } } as unknown as PocketBase;
+
+    await expect(checkFilter(pb, 'posts', 'anything = 1')).resolves.toBeUndefined();
+    await expect(checkFilter(pb, 'posts', 'anything = ')).rejects.toMatchObject({ error: { code: 'VALIDATION_ERROR' } });
+    expect(getFullList).not.toHaveBeenCalled();
+  });
+});
+
+describe('compileWhere', () => {
+  const pb = new PocketBase('http://127.0.0.1:8090');
+
+  it('should bind and escape values', () => {
+    expect(compileWhere(pb, { field: 'title', op: '~', value: "it's \"quoted\"" })).toBe("title ~ 'it\\'s \"quoted\"'");
+    expect(compileWhere(pb, { field: 'total', op: '>=', value: 10 })).toBe('total >= 10');
+    expect(compileWhere(pb, { field: 'paid', op: '=', value: true })).toBe('paid = true');
+    expect(compileWhere(pb, { field: 'deleted', op: '=', value: null })).toBe('deleted = null');
+  });
+
+  it('should group nested and/or clauses', () => {
+    const filter = compileWhere(pb, {
+      and: [
+        { field: 'status', op: '=', value: 'open' },
+        { or: [{ field: 'total', op: '>', value: 100 }, { field: 'tags', op: '?=', value: 'vip' }] },
+      ],
+    });
+
+    expect(filter).toBe("(status = 'open') && ((total > 100) || (tags ?= 'vip'))");
+    expect(() => parseFilter(filter)).not.toThrow();
+  });
+});
+
+describe('combineFilters', () => {
+  it('should join non-empty filters with &&', () => {
+    expect(combineFilters('a = 1', undefined, ' ')).toBe('a = 1');
+    expect(combineFilters('a = 1 || b = 2', 'c = 3')).toBe('(a = 1 || b = 2) && (c = 3)');
+    expect(combineFilters(undefined, '')).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for HTTP transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  isAuthorized,
+  startHttpServer,
+  closeIdleSessions,
+  closeAllSessions,
+  getSessionCount,
+} from '../../src/transports/http.js';
+import { resetClient } from '../../src/services/pocketbase.js';
+
+describe('isAuthorized', () => {
+  it('should allow any request when no token is configured', () => {
+    expect(isAuthorized(undefined, null)).toBe(true);
+    expect(isAuthorized('Bearer anything', null)).toBe(true);
+  });
+
+  it('should accept matching bearer token', () => {
+    expect(isAuthorized('Bearer secret', 'secret')).toBe(true);
+  });
+
+  it('should reject missing header', () => {
+    expect(isAuthorized(undefined, 'secret')).toBe(false);
+  });
+
+  it('should reject wrong token', () => {
+    expect(isAuthorized('Bearer wrong', 'secret')).toBe(false);
+    expect(isAuthorized('Bearer secret2', 'secret')).toBe(false);
+  });
+
+  it('should reject non-bearer schemes', () => {
+    expect(isAuthorized('Basic secret', 'secret')).toBe(false);
+  });
+});
+
+describe('session limits', () => {
+  let httpServer: Server;
+  let endpoint: string;
+
+  beforeEach(async () => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    httpServer = await startHttpServer({
+      type: 'http',
+      host: '127.0.0.1',
+      port: 0,
+      authToken: null,
+      sessionIdleTimeoutMs: 60 * 1000,
+      maxSessions: 1,
+    });
+    endpoint = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await closeAllSessions();
+    await new Promise(resolve => httpServer.close(resolve));
+    vi.unstubAllEnvs();
+    resetClient();
+  });
+
+  /**
+   * Send an initialize request without a session ID
+   */
+  function initialize(accept = 'application/json, text/event-stream'): Promise<Response> {
+    return fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: accept },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      }),
+    });
+  }
+
+  it('should reject new sessions past the cap', async () => {
+    const first = await initialize();
+    await first.text();
+    expect(first.status).toBe(200);
+    expect(getSessionCount()).toBe(1);
+
+    const second = await initialize();
+    expect(second.status).toBe(503);
+    expect(await second.text()).toContain('Too many sessions');
+  });
+
+  it('should close idle sessions', async () => {
+    await (await initialize()).text();
+
+    expect(await closeIdleSessions(60 * 1000)).toBe(0);
+    expect(await closeIdleSessions(60 * 1000, Date.now() + 61 * 1000)).toBe(1);
+    expect(getSessionCount()).toBe(0);
+
+    const next = await initialize();
+    await next.text();
+    expect(next.status).toBe(200);
+  });
+
+  it('should close the server of a session that fails to initialize', async () => {
+    const close = vi.spyOn(McpServer.prototype, 'close');
+
+    const response = await initialize('application/json');
+    await response.text();
+
+    expect(response.status).toBe(406);
+    expect(getSessionCount()).toBe(0);
+    expect(close).toHaveBeenCalledOnce();
+    close.mockRestore();
+  });
+});
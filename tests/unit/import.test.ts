@@ -0,0 +1,322 @@
+/**
+ * Unit tests for record import
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import PocketBase, { ClientResponseError, type CollectionModel } from 'pocketbase';
+import {
+  detectFormat,
+  detectDelimiter,
+  resolveImportPath,
+  parseCsv,
+  parseImport,
+  mapColumns,
+  checkColumns,
+  coerceRow,
+  resolveLookups,
+  createRecords,
+  type CoercionOptions,
+} from '../../src/services/import.js';
+
+const products = {
+  id: 'pbc_products',
+  name: 'products',
+  type: 'base',
+  fields: [
+    { name: 'id', type: 'text', required: true, autogeneratePattern: '[a-z0-9]{15}', primaryKey: true },
+    { name: 'name', type: 'text', required: true },
+    { name: 'price', type: 'number' },
+    { name: 'active', type: 'bool' },
+    { name: 'released', type: 'date' },
+    { name: 'tags', type: 'select', maxSelect: 5, values: ['new', 'sale', 'eco'] },
+    { name: 'maker', type: 'relation', maxSelect: 1, collectionId: 'pbc_makers' },
+    { name: 'meta', type: 'json' },
+  ],
+} as unknown as CollectionModel;
+
+const options: CoercionOptions = { listSeparator: ',', lookups: new Map(), lookupFields: {} };
+
+describe('parseCsv', () => {
+  it('should handle quotes, escaped quotes, CRLF and blank lines', () => {
+    const rows = parseCsv('﻿name,note\r\n"Lamp, small","say ""hi"""\r\n\r\nDesk,"two\nlines"\n');
+
+    expect(rows).toEqual([
+      { line: 1, cells: ['name', 'note'] },
+      { line: 2, cells: ['Lamp, small', 'say "hi"'] },
+      { line: 4, cells: ['Desk', 'two\nlines'] },
+    ]);
+  });
+
+  it('should use the given delimiter', () => {
+    expect(parseCsv('a;b\n1;2', ';')).toEqual([{ line: 1, cells: ['a', 'b'] }, { line: 2, cells: ['1', '2'] }]);
+  });
+});
+
+describe('parseImport', () => {
+  it('should key CSV rows by header and report malformed rows', () => {
+    const parsed = parseImport('name,price\nLamp,10\nDesk\nChair,5,extra', 'csv');
+
+    expect(parsed.columns).toEqual(['name', 'price']);
+    expect(parsed.rows).toEqual([
+      { row: 1, values: { name: 'Lamp', price: '10' } },
+      { row: 2, values: { name: 'Desk', price: '' } },
+    ]);
+    expect(parsed.errors).toEqual([{ row: 3, message: 'Line 4 has 3 cells but the header has 2' }]);
+  });
+
+  it('should parse JSON arrays and NDJSON lines', () => {
+    expect(parseImport('[{"name":"Lamp"},5]', 'json')).toEqual({
+      rows: [{ row: 1, values: { name: 'Lamp' } }],
+      errors: [{ row: 2, message: 'Row is not an object' }],
+      columns: ['name'],
+    });
+
+    const ndjson = parseImport('{"name":"Lamp"}\n\n{bad\n{"price":1}', 'ndjson');
+    expect(ndjson.rows.map(r => r.row)).toEqual([1, 3]);
+    expect(ndjson.errors[0]).toMatchObject({ row: 2, message: expect.stringContaining('Invalid JSON') });
+    expect(ndjson.columns).toEqual(['name', 'price']);
+  });
+
+  it('should reject unreadable sources as a whole', () => {
+    expect(() => parseImport('{"name":"Lamp"}', 'json')).toThrow();
+    expect(() => parseImport('name,name\n1,2', 'csv')).toThrow();
+    try {
+      parseImport('', 'csv');
+    } catch (error) {
+      expect(error).toMatchObject({ error: { code: 'VALIDATION_ERROR', message: 'No CSV header row found' } });
+    }
+  });
+});
+
+describe('detectFormat', () => {
+  it('should use the extension, then the first character', () => {
+    expect(detectFormat('data.JSONL', '')).toBe('ndjson');
+    expect(detectFormat('data.csv', '[')).toBe('csv');
+    expect(detectFormat(undefined, '  [{"a":1}]')).toBe('json');
+    expect(detectFormat(undefined, '{"a":1}\n{"a":2}')).toBe('ndjson');
+    expect(detectFormat(undefined, 'a,b\n1,2')).toBe('csv');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('should use tabs for .tsv files and commas otherwise', () => {
+    expect(detectDelimiter('/data/products.TSV')).toBe('\t');
+    expect(detectDelimiter('/data/products.csv')).toBe(',');
+    expect(detectDelimiter(undefined)).toBe(',');
+    expect(parseImport('name\tprice\nMug\t4.5', detectFormat('mugs.tsv', ''), detectDelimiter('mugs.tsv')).rows)
+      .toEqual([{ row: 1, values: { name: 'Mug', price: '4.5' } }]);
+  });
+});
+
+describe('resolveImportPath', () => {
+  it('should keep files inside the import directory', () => {
+    const config = { maxRows: 10, importDir: '/data/imports' };
+
+    expect(resolveImportPath('products.csv', config, 'http')).toBe('/data/imports/products.csv');
+    expect(() => resolveImportPath('../secret.csv', config, 'stdio')).toThrow();
+    expect(() => resolveImportPath('/etc/passwd', config, 'stdio')).toThrow();
+  });
+
+  it('should refuse files over HTTP without an import directory', () => {
+    const config = { maxRows: 10, importDir: null };
+
+    expect(resolveImportPath('/tmp/a.csv', config, 'stdio')).toBe('/tmp/a.csv');
+    expect(() => resolveImportPath('/tmp/a.csv', config, 'http')).toThrow();
+  });
+});
+
+describe('mapColumns and checkColumns', () => {
+  it('should rename, drop and ignore columns', () => {
+    const mapping = { 'Product name': 'name', Notes: null };
+    const mapped = mapColumns(['Product name', 'Notes', 'price', 'sku'], mapping);
+
+    expect([...mapped]).toEqual([['Product name', 'name'], ['price', 'price'], ['sku', 'sku']]);
+    expect(checkColumns(products, mapped, mapping, {})).toEqual(['sku']);
+  });
+
+  it('should reject mappings and lookups on unknown or non-relation fields', () => {
+    const mapping = { Price: 'prise' };
+
+    expect(() => checkColumns(products, mapColumns(['Price'], mapping), mapping, { price: 'name' })).toThrow();
+    try {
+      checkColumns(products, mapColumns(['Price'], mapping), mapping, { price: 'name' });
+    } catch (error) {
+      expect(error).toMatchObject({
+        error: {
+          fieldErrors: {
+            'columns.Price': 'Unknown field "prise". Did you mean "price"?',
+            'lookup.price': '"price" is a number field, not a relation',
+          },
+        },
+      });
+    }
+  });
+});
+
+describe('coerceRow', () => {
+  const mapped = mapColumns(['name', 'price', 'active', 'released', 'tags', 'maker', 'meta'], {});
+
+  it('should coerce values to the field types', () => {
+    const result = coerceRow(products, {
+      row: 1,
+      values: {
+        name: 'Lamp',
+        price: '1 200.5',
+        active: 'Yes',
+        released: '2026-01-20',
+        tags: 'new, eco',
+        maker: 'abc123def456ghi',
+        meta: '{"color":"red"}',
+      },
+    }, mapped, options);
+
+    expect(result).toEqual({
+      data: {
+        name: 'Lamp',
+        price: 1200.5,
+        active: true,
+        released: '2026-01-20 00:00:00.000Z',
+        tags: ['new', 'eco'],
+        maker: 'abc123def456ghi',
+        meta: { color: 'red' },
+      },
+    });
+  });
+
+  it('should leave out empty cells and collect every problem in the row', () => {
+    const result = coerceRow(products, {
+      row: 7,
+      values: { name: '', price: 'cheap', active: 'maybe', released: 'soon', tags: 'new,old', maker: '', meta: '{' },
+    }, mapped, options);
+
+    expect(result).toEqual({
+      error: {
+        row: 7,
+        message: 'Invalid values',
+        fieldErrors: {
+          name: 'Missing required value',
+          price: 'Expected a number, got "cheap"',
+          active: 'Expected a boolean (true/false, yes/no, 1/0), got "maybe"',
+          released: expect.stringContaining('Expected a date'),
+          tags: expect.stringContaining('Not an allowed value: "old"'),
+          meta: 'Expected JSON (strings must be quoted)',
+        },
+      },
+    });
+  });
+
+  it('should resolve relations through lookups', () => {
+    const lookupOptions: CoercionOptions = {
+      listSeparator: ',',
+      lookupFields: { maker: 'name' },
+      lookups: new Map([['maker', new Map([['Acme', ['m1']], ['Twin', ['m2', 'm3']]])]]),
+    };
+
+    expect(coerceRow(products, { row: 1, values: { name: 'A', maker: 'Acme' } }, mapped, lookupOptions))
+      .toEqual({ data: { name: 'A', maker: 'm1' } });
+    expect(coerceRow(products, { row: 2, values: { name: 'B', maker: 'Nope' } }, mapped, lookupOptions))
+      .toMatchObject({ error: { fieldErrors: { maker: 'No related record with name "Nope"' } } });
+    expect(coerceRow(products, { row: 3, values: { name: 'C', maker: 'Twin' } }, mapped, lookupOptions))
+      .toMatchObject({ error: { fieldErrors: { maker: expect.stringContaining('2 related records') } } });
+  });
+});
+
+describe('resolveLookups', () => {
+  it('should query each distinct display value once', async () => {
+    const getFullList = vi.fn(async () => [{ id: 'm1', name: 'Acme' }, { id: 'm2', name: 'Beta' }]);
+    const pb = new PocketBase('http://127.0.0.1:8090');
+    pb.collection = vi.fn(() => ({ getFullList })) as unknown as typeof pb.collection;
+
+    const rows = [
+      { row: 1, values: { Maker: 'Acme' } },
+      { row: 2, values: { Maker: 'Beta' } },
+      { row: 3, values: { Maker: 'Acme' } },
+    ];
+    const lookups = await resolveLookups(pb, products, rows, mapColumns(['Maker'], { Maker: 'maker' }), { maker: 'name' }, ',');
+
+    expect(pb.collection).toHaveBeenCalledWith('pbc_makers');
+    expect(getFullList).toHaveBeenCalledTimes(1);
+    expect(getFullList).toHaveBeenCalledWith({ filter: "name = 'Acme' || name = 'Beta'", fields: 'id,name' });
+    expect(lookups.get('maker')).toEqual(new Map([['Acme', ['m1']], ['Beta', ['m2']]]));
+  });
+});
+
+describe('createRecords', () => {
+  /**
+   * Build a fake client whose batch requests reject the records named in `reject`
+   * and fail with a server error from request number `failAt` on
+   */
+  function fakeClient(reject: string[], failAt = Infinity) {
+    const send = vi.fn();
+    const pb = {
+      createBatch: () => {
+        const queued: Record<string, unknown>[] = [];
+        return {
+          collection: () => ({ create: (data: Record<string, unknown>) => queued.push(data) }),
+          send: async () => {
+            send(queued.map(data => data.name));
+            if (send.mock.calls.length >= failAt) {
+              throw new ClientResponseError({ status: 503, response: { message: 'Service unavailable.' } });
+            }
+            const position = queued.findIndex(data => reject.includes(data.name as string));
+            if (position >= 0) {
+              throw new ClientResponseError({
+                status: 400,
+                response: {
+                  data: {
+                    requests: {
+                      [position]: { response: { status: 400, body: { message: 'Failed to create record.', data: { name: { message: 'Taken' } } } } },
+                    },
+                  },
+                },
+              });
+            }
+            return queued.map(data => ({ status: 200, body: { id: `id_${data.name}` } }));
+          },
+        };
+      },
+    } as unknown as PocketBase;
+    return { pb, send };
+  }
+
+  const rows = ['a', 'b', 'c', 'd', 'e'].map((name, i) => ({ row: i + 1, data: { name } }));
+
+  it('should create every row in chunks', async () => {
+    const { pb, send } = fakeClient([]);
+
+    const result = await createRecords(pb, 'products', rows, 2);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(result).toEqual({
+      created: rows.map(({ row, data }) => ({ row, id: `id_${data.name}` })),
+      failed: [],
+      notSent: 0,
+    });
+  });
+
+  it('should report rejected rows and retry the rest of their chunk', async () => {
+    const { pb, send } = fakeClient(['d']);
+    const progress = vi.fn();
+
+    const result = await createRecords(pb, 'products', rows, 2, progress);
+
+    expect(send.mock.calls.map(call => call[0])).toEqual([['a', 'b'], ['c', 'd'], ['c', 'e']]);
+    expect(result.created.map(c => c.row)).toEqual([1, 2, 3, 5]);
+    expect(result.failed).toEqual([{ row: 4, message: 'Failed to create record.', fieldErrors: { name: 'Taken' } }]);
+    expect(progress).toHaveBeenLastCalledWith(5, 5);
+  });
+
+  it('should stop at a server error and count the remaining rows as not sent', async () => {
+    const { pb, send } = fakeClient(['b'], 3);
+
+    const result = await createRecords(pb, 'products', rows, 2);
+
+    expect(send.mock.calls.map(call => call[0])).toEqual([['a', 'b'], ['a', 'c'], ['d', 'e']]);
+    expect(result).toEqual({
+      created: [{ row: 1, id: 'id_a' }, { row: 3, id: 'id_c' }],
+      failed: [{ row: 2, message: 'Failed to create record.', fieldErrors: { name: 'Taken' } }],
+      notSent: 2,
+      aborted: 'Service unavailable.',
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for full pagination
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type PocketBase from 'pocketbase';
+import { walkRecords, fitItems, spillToFile } from '../../src/services/pagination.js';
+import { reportProgress, type ToolExtra } from '../../src/services/progress.js';
+
+/**
+ * Build a fake client serving `count` records from one collection
+ */
+function fakeClient(count: number) {
+  const records = Array.from({ length: count }, (_, i) => ({ id: `r${i}` }));
+  const getList = vi.fn(async (page: number, perPage: number, options: { skipTotal?: boolean }) => ({
+    page,
+    perPage,
+    totalItems: options.skipTotal ? -1 : count,
+    totalPages: options.skipTotal ? -1 : Math.ceil(count / perPage),
+    items: records.slice((page - 1) * perPage, page * perPage),
+  }));
+  const pb = { collection: () => ({ getList }) } as unknown as PocketBase;
+  return { pb, getList };
+}
+
+describe('walkRecords', () => {
+  it('should fetch every page and count the total once', async () => {
+    const { pb, getList } = fakeClient(25);
+    const pages: number[] = [];
+
+    const result = await walkRecords(pb, 'posts', { filter: 'x' }, { pageSize: 10, maxRecords: 100 }, (items, info) => {
+      pages.push(items.length);
+      expect(info.totalItems).toBe(25);
+    });
+
+    expect(pages).toEqual([10, 10, 5]);
+    expect(result).toEqual({ pages: 3, fetched: 25, totalItems: 25, capped: false });
+    expect(getList.mock.calls[0][2]).toEqual({ filter: 'x' });
+    expect(getList.mock.calls[1][2]).toEqual({ filter: 'x', skipTotal: true });
+  });
+
+  it('should stop at the record cap', async () => {
+    const { pb, getList } = fakeClient(25);
+    const pages: number[] = [];
+
+    const result = await walkRecords(pb, 'posts', {}, { pageSize: 10, maxRecords: 15 }, items => {
+      pages.push(items.length);
+    });
+
+    expect(pages).toEqual([10, 5]);
+    expect(getList).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ pages: 2, fetched: 15, totalItems: 25, capped: true });
+  });
+
+  it('should not report a cap when the list ends exactly at it', async () => {
+    const { pb } = fakeClient(20);
+
+    const result = await walkRecords(pb, 'posts', {}, { pageSize: 10, maxRecords: 20 }, () => {});
+
+    expect(result.capped).toBe(false);
+  });
+});
+
+describe('fitItems', () => {
+  it('should find the largest prefix that fits', () => {
+    const items = ['aaaa', 'bbbb', 'cccc', 'dddd'];
+    const render = (subset: string[]) => subset.join('');
+
+    expect(fitItems(items, 9, render)).toBe(2);
+    expect(fitItems(items, 100, render)).toBe(4);
+    expect(fitItems(items, 3, render)).toBe(0);
+  });
+});
+
+describe('spillToFile', () => {
+  it('should write JSON to a new file in the directory', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pb-mcp-spill-'));
+
+    const path = spillToFile(dir, 'my/posts', { items: [1, 2] });
+
+    expect(path.startsWith(join(dir, 'my_posts-'))).toBe(true);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ items: [1, 2] });
+  });
+});
+
+describe('reportProgress', () => {
+  it('should notify only when the request has a progress token', async () => {
+    const sendNotification = vi.fn();
+
+    await reportProgress({ sendNotification } as unknown as ToolExtra, 1, 2);
+    expect(sendNotification).not.toHaveBeenCalled();
+
+    await reportProgress({ _meta: { progressToken: 't1' }, sendNotification } as unknown as ToolExtra, 1, 2, 'Page 1');
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 't1', progress: 1, total: 2, message: 'Page 1' },
+    });
+  });
+});
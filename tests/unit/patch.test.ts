@@ -0,0 +1,105 @@
+/**
+ * Unit tests for field modifiers and JSON Patch
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseModifierKey,
+  hasModifiers,
+  resolveModifiers,
+  applyJsonPatch,
+  patchFields,
+} from '../../src/services/patch.js';
+
+describe('parseModifierKey', () => {
+  it('should split modifiers from field names', () => {
+    expect(parseModifierKey('tags+')).toEqual({ field: 'tags', modifier: 'append' });
+    expect(parseModifierKey('+tags')).toEqual({ field: 'tags', modifier: 'prepend' });
+    expect(parseModifierKey('tags-')).toEqual({ field: 'tags', modifier: 'remove' });
+    expect(parseModifierKey('tags')).toEqual({ field: 'tags' });
+    expect(hasModifiers({ title: 'x', 'views+': 1 })).toBe(true);
+    expect(hasModifiers({ title: 'x' })).toBe(false);
+  });
+});
+
+describe('resolveModifiers', () => {
+  const current = { tags: ['a', 'b'], views: 10, author: 'u1', title: 'Old' };
+
+  it('should append, prepend and remove list values', () => {
+    expect(resolveModifiers(current, { 'tags+': ['c', 'a'] })).toEqual({ tags: ['a', 'b', 'c'] });
+    expect(resolveModifiers(current, { '+tags': 'c' })).toEqual({ tags: ['c', 'a', 'b'] });
+    expect(resolveModifiers(current, { 'tags-': ['a'] })).toEqual({ tags: ['b'] });
+  });
+
+  it('should add to and subtract from numbers', () => {
+    expect(resolveModifiers(current, { 'views+': 5 })).toEqual({ views: 15 });
+    expect(resolveModifiers(current, { 'views-': 3 })).toEqual({ views: 7 });
+  });
+
+  it('should clear single values and apply modifiers after plain values', () => {
+    expect(resolveModifiers(current, { 'author-': 'u1' })).toEqual({ author: '' });
+    expect(resolveModifiers(current, { title: 'New', tags: [], 'tags+': 'x' })).toEqual({ title: 'New', tags: ['x'] });
+  });
+});
+
+describe('applyJsonPatch', () => {
+  const document = { theme: 'light', items: [1, 2], nested: { a: { b: 1 } } };
+
+  it('should apply add, remove, replace, move, copy and test', () => {
+    const result = applyJsonPatch(document, [
+      { op: 'test', path: '/theme', value: 'light' },
+      { op: 'replace', path: '/theme', value: 'dark' },
+      { op: 'add', path: '/items/-', value: 3 },
+      { op: 'add', path: '/items/0', value: 0 },
+      { op: 'remove', path: '/items/1' },
+      { op: 'copy', from: '/nested/a', path: '/copy' },
+      { op: 'move', from: '/nested/a/b', path: '/moved' },
+      { op: 'test', path: '/nested', value: { a: {} } },
+    ]);
+
+    expect(result).toEqual({ theme: 'dark', items: [0, 2, 3], nested: { a: {} }, copy: { b: 1 }, moved: 1 });
+    expect(document).toEqual({ theme: 'light', items: [1, 2], nested: { a: { b: 1 } } });
+  });
+
+  it('should unescape pointer tokens and replace the root', () => {
+    expect(applyJsonPatch({ 'a/b': 1, 'c~d': 2 }, [
+      { op: 'replace', path: '/a~1b', value: 3 },
+      { op: 'remove', path: '/c~0d' },
+    ])).toEqual({ 'a/b': 3 });
+    expect(applyJsonPatch(null, [{ op: 'add', path: '', value: { x: 1 } }])).toEqual({ x: 1 });
+  });
+
+  it('should name the failing operation', () => {
+    expect(() => applyJsonPatch(document, [
+      { op: 'replace', path: '/theme', value: 'dark' },
+      { op: 'remove', path: '/missing' },
+    ])).toThrow('Operation 1 (remove "/missing"): Path "/missing" does not exist');
+    expect(() => applyJsonPatch(document, [{ op: 'test', path: '/theme', value: 'dark' }])).toThrow(/Test failed/);
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '/items/5', value: 1 }])).toThrow(/out of bounds/);
+    expect(() => applyJsonPatch(document, [{ op: 'move', from: '/nested', path: '/nested/a/x' }])).toThrow(/own child/);
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '/x' }])).toThrow(/Missing "value"/);
+  });
+});
+
+describe('patchFields', () => {
+  it('should patch each field of the current record', () => {
+    const current = { meta: { theme: 'light' }, settings: null };
+    expect(patchFields(current, {
+      meta: [{ op: 'add', path: '/lang', value: 'en' }],
+      settings: [{ op: 'add', path: '', value: { beta: true } }],
+    })).toEqual({ meta: { theme: 'light', lang: 'en' }, settings: { beta: true } });
+  });
+
+  it('should report every failing field at once', () => {
+    try {
+      patchFields({ meta: {}, other: [] }, {
+        meta: [{ op: 'remove', path: '/a' }],
+        other: [{ op: 'replace', path: '/0', value: 1 }],
+      });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({ error: { code: 'VALIDATION_ERROR' } });
+      expect(Object.keys((error as { error: { fieldErrors: object } }).error.fieldErrors)).toEqual(['meta', 'other']);
+    }
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for field profiling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createFieldProfiles, profileRecords, summarizeProfiles } from '../../src/services/profile.js';
+
+const fields = [
+  { name: 'status', type: 'select' },
+  { name: 'tags', type: 'select' },
+  { name: 'total', type: 'number' },
+  { name: 'title', type: 'text' },
+  { name: 'due', type: 'date' },
+  { name: 'password', type: 'password' },
+];
+
+const records = [
+  { status: 'open', tags: ['a', 'b'], total: 10, title: 'abc', due: '2026-03-01 00:00:00.000Z' },
+  { status: 'paid', tags: ['a'], total: 30, title: '', due: '2026-01-01 00:00:00.000Z' },
+  { status: 'open', tags: [], total: null, title: 'abcdef', due: '' },
+  { status: 'open', tags: ['c'], total: 20, title: 'x', due: '2026-02-01 00:00:00.000Z' },
+];
+
+describe('profileRecords', () => {
+  it('should report empties, distinct values and top values', () => {
+    const profiles = createFieldProfiles(fields);
+    profileRecords(profiles, records.slice(0, 2));
+    profileRecords(profiles, records.slice(2));
+
+    const [status, tags] = summarizeProfiles(profiles, records.length, 2);
+    expect(status).toEqual({
+      name: 'status',
+      type: 'select',
+      empty: 0,
+      emptyRate: 0,
+      distinct: 2,
+      top: [{ value: 'open', count: 3 }, { value: 'paid', count: 1 }],
+    });
+    expect(tags).toMatchObject({ empty: 1, emptyRate: 0.25, distinct: 3, top: [{ value: 'a', count: 2 }, { value: 'b', count: 1 }] });
+  });
+
+  it('should report ranges for numbers and dates and lengths for strings', () => {
+    const profiles = createFieldProfiles(fields);
+    profileRecords(profiles, records);
+
+    const [, , total, title, due] = summarizeProfiles(profiles, records.length, 5);
+    expect(total).toMatchObject({ empty: 1, min: 10, max: 30, avg: 20 });
+    expect(title).toMatchObject({ empty: 1, length: { min: 1, max: 6, avg: 3.3333 } });
+    expect(title.min).toBeUndefined();
+    expect(due).toMatchObject({ empty: 1, min: '2026-01-01 00:00:00.000Z', max: '2026-03-01 00:00:00.000Z' });
+  });
+
+  it('should skip password fields and shorten long values', () => {
+    const profiles = createFieldProfiles([...fields, { name: 'body', type: 'editor' }]);
+    profileRecords(profiles, [{ body: 'x'.repeat(500) }]);
+
+    const summary = summarizeProfiles(profiles, 1, 1);
+    expect(summary.map(p => p.name)).not.toContain('password');
+    expect(summary.find(p => p.name === 'body')?.top[0].value).toBe(`${'x'.repeat(100)}…`);
+  });
+});
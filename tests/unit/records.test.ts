@@ -0,0 +1,124 @@
+/**
+ * Unit tests for record tool handlers
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ClientResponseError } from 'pocketbase';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { getClient, resetClient } from '../../src/services/pocketbase.js';
+
+/**
+ * Connect a client to a fresh server
+ */
+async function connect(): Promise<Client> {
+  const server = createServer();
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return client;
+}
+
+/**
+ * Replace the record service of the stdio client with fakes
+ */
+function fakeRecords(lookup: () => Promise<unknown[]>) {
+  const service = {
+    getList: vi.fn(async () => ({ items: await lookup() })),
+    create: vi.fn(async (data: Record<string, unknown>) => ({ id: 'new123', ...data })),
+    update: vi.fn(async (id: string, data: Record<string, unknown>) => ({ id, ...data })),
+    getOne: vi.fn(),
+  };
+  vi.spyOn(getClient(), 'collection').mockReturnValue(service as never);
+  return service;
+}
+
+/**
+ * Call the upsert tool and parse its JSON output
+ */
+async function upsert(args: Record<string, unknown>): Promise<{ isError: boolean; output: Record<string, unknown> }> {
+  const client = await connect();
+  const result = await client.callTool({ name: 'pocketbase_upsert_record', arguments: { ...args, format: 'json' } });
+  await client.close();
+
+  const text = (result.content as { text: string }[])[0].text;
+  return { isError: result.isError === true, output: JSON.parse(text) };
+}
+
+describe('pocketbase_upsert_record', () => {
+  beforeEach(() => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetClient();
+  });
+
+  it('should update the matching record', async () => {
+    const service = fakeRecords(async () => [{ id: 'abc123', email: 'a@example.com', name: 'Old' }]);
+
+    const { isError, output } = await upsert({
+      collection: 'users',
+      matchOn: ['email'],
+      data: { email: 'a@example.com', name: 'Ann' },
+    });
+
+    expect(isError).toBe(false);
+    expect(output).toMatchObject({ action: 'updated', changes: { name: { from: 'Old', to: 'Ann' } } });
+    expect(service.update).toHaveBeenCalledWith('abc123', { email: 'a@example.com', name: 'Ann' }, {});
+    expect(service.create).not.toHaveBeenCalled();
+  });
+
+  it('should create the record when nothing matches', async () => {
+    const service = fakeRecords(async () => []);
+
+    const { isError, output } = await upsert({
+      collection: 'users',
+      matchOn: ['email'],
+      data: { email: 'a@example.com', name: 'Ann' },
+    });
+
+    expect(isError).toBe(false);
+    expect(output).toMatchObject({ action: 'created', record: { id: 'new123', name: 'Ann' } });
+    expect(service.create).toHaveBeenCalledOnce();
+  });
+
+  it('should refuse a key that matches several records', async () => {
+    const service = fakeRecords(async () => [{ id: 'abc123', name: 'Ann' }, { id: 'def456', name: 'Ann' }]);
+
+    const { isError, output } = await upsert({ collection: 'users', matchOn: ['name'], data: { name: 'Ann', age: 30 } });
+
+    expect(isError).toBe(true);
+    expect(output).toMatchObject({ error: { code: 'VALIDATION_ERROR', message: expect.stringContaining('More than one record') } });
+    expect(service.getList).toHaveBeenCalledWith(1, 2, expect.objectContaining({ skipTotal: true }));
+    expect(service.update).not.toHaveBeenCalled();
+    expect(service.create).not.toHaveBeenCalled();
+  });
+
+  it('should report a missing collection instead of creating', async () => {
+    const service = fakeRecords(async () => {
+      throw new ClientResponseError({
+        url: 'http://127.0.0.1:8090/api/collections/nope/records',
+        status: 404,
+        response: { code: 404, message: 'Missing collection context.' },
+      });
+    });
+
+    const { isError, output } = await upsert({
+      collection: 'nope',
+      matchOn: ['email'],
+      data: { email: 'a@example.com' },
+    });
+
+    expect(isError).toBe(true);
+    expect(output).toMatchObject({ error: { code: 'NOT_FOUND' } });
+    expect(service.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for tool registry filtering
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { matchesGlob, isToolEnabled } from '../../src/services/registry.js';
+import { resetClient } from '../../src/services/pocketbase.js';
+
+describe('matchesGlob', () => {
+  it('should match exact names', () => {
+    expect(matchesGlob('pocketbase_list_records', 'pocketbase_list_records')).toBe(true);
+    expect(matchesGlob('pocketbase_list_records', 'pocketbase_list_logs')).toBe(false);
+  });
+
+  it('should match * wildcards', () => {
+    expect(matchesGlob('pocketbase_create_backup', 'pocketbase_*_backup')).toBe(true);
+    expect(matchesGlob('pocketbase_list_backups', 'pocketbase_*_backup')).toBe(false);
+    expect(matchesGlob('pocketbase_list_records', '*')).toBe(true);
+  });
+
+  it('should match ? wildcards', () => {
+    expect(matchesGlob('pocketbase_get_log', 'pocketbase_get_lo?')).toBe(true);
+    expect(matchesGlob('pocketbase_get_logs', 'pocketbase_get_lo?')).toBe(false);
+  });
+
+  it('should treat regex characters literally', () => {
+    expect(matchesGlob('pocketbaseXlist', 'pocketbase.list')).toBe(false);
+  });
+});
+
+describe('isToolEnabled', () => {
+  beforeEach(() => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetClient();
+  });
+
+  it('should enable all tools without filters', () => {
+    expect(isToolEnabled('pocketbase_delete_backup')).toBe(true);
+  });
+
+  it('should apply include patterns', () => {
+    vi.stubEnv('POCKETBASE_MCP_INCLUDE_TOOLS', 'pocketbase_*_record*,pocketbase_get_auth_status');
+    
+    expect(isToolEnabled('pocketbase_list_records')).toBe(true);
+    expect(isToolEnabled('pocketbase_get_auth_status')).toBe(true);
+    expect(isToolEnabled('pocketbase_list_logs')).toBe(false);
+  });
+
+  it('should apply exclude patterns after include patterns', () => {
+    vi.stubEnv('POCKETBASE_MCP_INCLUDE_TOOLS', 'pocketbase_*');
+    vi.stubEnv('POCKETBASE_MCP_EXCLUDE_TOOLS', 'pocketbase_*_backup*');
+    
+    expect(isToolEnabled('pocketbase_list_records')).toBe(true);
+    expect(isToolEnabled('pocketbase_list_backups')).toBe(false);
+    expect(isToolEnabled('pocketbase_restore_backup')).toBe(false);
+  });
+
+  it('should hide mutating tools in read-only mode even when included', () => {
+    vi.stubEnv('POCKETBASE_MCP_READONLY', 'true');
+    vi.stubEnv('POCKETBASE_MCP_INCLUDE_TOOLS', 'pocketbase_delete_record');
+    
+    expect(isToolEnabled('pocketbase_delete_record')).toBe(false);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Unit tests for MCP server factory
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { createServer } from '../../src/server.js';
+import { notifyCollectionsChanged } from '../../src/resources/collections.js';
+import { resetClient } from '../../src/services/pocketbase.js';
+import { MUTATING_TOOLS } from '../../src/constants.js';
+
+/**
+ * Connect a client to a fresh server
+ */
+async function connect(): Promise<Client> {
+  const server = createServer();
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  
+  return client;
+}
+
+/**
+ * Connect a client to a fresh server and list its tool names
+ */
+async function listToolNames(): Promise<string[]> {
+  const client = await connect();
+  const { tools } = await client.listTools();
+  await client.close();
+  
+  return tools.map(t => t.name);
+}
+
+describe('createServer', () => {
+  beforeEach(() => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetClient();
+  });
+
+  it('should register mutating tools by default', async () => {
+    const names = await listToolNames();
+    
+    expect(names).toContain('pocketbase_list_records');
+    for (const name of MUTATING_TOOLS) {
+      expect(names).toContain(name);
+    }
+  });
+
+  it('should hide mutating tools in read-only mode', async () => {
+    vi.stubEnv('POCKETBASE_MCP_READONLY', 'true');
+    
+    const names = await listToolNames();
+    
+    expect(names).toContain('pocketbase_list_records');
+    expect(names).toContain('pocketbase_list_backups');
+    for (const name of MUTATING_TOOLS) {
+      expect(names).not.toContain(name);
+    }
+  });
+});
+
+describe('tool filters', () => {
+  beforeEach(() => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetClient();
+  });
+
+  it('should register only included tools minus excluded ones', async () => {
+    vi.stubEnv('POCKETBASE_MCP_INCLUDE_TOOLS', 'pocketbase_*_record*,pocketbase_get_auth_status');
+    vi.stubEnv('POCKETBASE_MCP_EXCLUDE_TOOLS', 'pocketbase_delete_*');
+    
+    const names = await listToolNames();
+    
+    expect(names.sort()).toEqual([
+      'pocketbase_create_record',
+      'pocketbase_find_first_record',
+      'pocketbase_get_auth_status',
+      'pocketbase_get_record',
+      'pocketbase_import_records',
+      'pocketbase_list_all_records',
+      'pocketbase_list_records',
+      'pocketbase_update_record',
+      'pocketbase_upsert_record',
+    ]);
+  });
+
+  it('should report active tools in auth status', async () => {
+    vi.stubEnv('POCKETBASE_MCP_INCLUDE_TOOLS', 'pocketbase_get_*');
+    
+    const client = await connect();
+    const result = await client.callTool({
+      name: 'pocketbase_get_auth_status',
+      arguments: { format: 'json' },
+    });
+    await client.close();
+    
+    const content = result.content as { type: string; text: string }[];
+    const status = JSON.parse(content[0].text);
+    expect(status.activeTools).toEqual(expect.arrayContaining(['pocketbase_get_auth_status', 'pocketbase_get_record']));
+    expect(status.activeTools).not.toContain('pocketbase_list_records');
+  });
+});
+
+describe('resources', () => {
+  beforeEach(() => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetClient();
+  });
+
+  it('should register collection and record resources', async () => {
+    const client = await connect();
+    const { resources } = await client.listResources();
+    const { resourceTemplates } = await client.listResourceTemplates();
+    await client.close();
+    
+    expect(resources.map(r => r.uri)).toEqual(['pocketbase://collections']);
+    expect(resourceTemplates.map(t => t.uriTemplate).sort()).toEqual([
+      'pocketbase://backups/{key}',
+      'pocketbase://collections/{name}/schema',
+      'pocketbase://records/{collection}/{id}',
+    ]);
+  });
+
+  it('should notify every connected session when collections change', async () => {
+    const servers: McpServer[] = [];
+    const clients: Client[] = [];
+    const notified = [0, 0];
+    for (const index of [0, 1]) {
+      const server = createServer();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+        notified[index]++;
+      });
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+      servers.push(server);
+      clients.push(client);
+    }
+
+    notifyCollectionsChanged(servers[0]);
+    await vi.waitFor(() => expect(notified).toEqual([1, 1]));
+
+    await clients[1].close();
+    notifyCollectionsChanged(servers[0]);
+    await vi.waitFor(() => expect(notified).toEqual([2, 1]));
+    await clients[0].close();
+  });
+
+  it('should require admin authentication to read collections', async () => {
+    const client = await connect();
+    const read = client.readResource({ uri: 'pocketbase://collections/posts/schema' });
+    
+    await expect(read).rejects.toThrow(/AUTH_REQUIRED/);
+    await client.close();
+  });
+});
+
+describe('prompts', () => {
+  beforeEach(() => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetClient();
+  });
+
+  it('should register workflow prompts', async () => {
+    const client = await connect();
+    const { prompts } = await client.listPrompts();
+    await client.close();
+    
+    expect(prompts.map(p => p.name).sort()).toEqual([
+      'audit_api_rules',
+      'debug_recent_errors',
+      'design_collection_schema',
+      'write_filter',
+    ]);
+  });
+
+  it('should build a schema design prompt without admin authentication', async () => {
+    const client = await connect();
+    const result = await client.getPrompt({
+      name: 'design_collection_schema',
+      arguments: { requirements: 'Blog posts with tags' },
+    });
+    await client.close();
+    
+    const content = result.messages[0].content as { type: string; text: string };
+    expect(content.text).toContain('Blog posts with tags');
+    expect(content.text).toContain('admin authentication required');
+  });
+
+  it('should complete instance names', async () => {
+    const client = await connect();
+    const result = await client.complete({
+      ref: { type: 'ref/prompt', name: 'write_filter' },
+      argument: { name: 'instance', value: 'def' },
+    });
+    await client.close();
+    
+    expect(result.completion.values).toEqual(['default']);
+  });
+
+  it('should require admin authentication to pull logs', async () => {
+    const client = await connect();
+    const get = client.getPrompt({ name: 'debug_recent_errors', arguments: {} });
+    
+    await expect(get).rejects.toThrow(/AUTH_REQUIRED/);
+    await client.close();
+  });
+});
@@ -2,14 +2,24 @@
  * Unit tests for PocketBase service
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { 
   createErrorResponse, 
   handlePocketBaseError, 
-  isErrorResponse 
+  isErrorResponse,
+  getClient,
+  getAuthState,
+  getInstance,
+  isReadOnly,
+  requireWritable,
+  releaseClient,
+  resetClient,
 } from '../../src/services/pocketbase.js';
 import { ErrorCodes } from '../../src/constants.js';
 import { ClientResponseError } from 'pocketbase';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 describe('createErrorResponse', () => {
   it('should create error response with required fields', () => {
@@ -188,3 +198,152 @@ describe('handlePocketBaseError', () => {
     expect(result.error.code).toBe('SERVER_ERROR');
   });
 });
+
+describe('getClient', () => {
+  beforeEach(() => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should return the same client for the same session', () => {
+    expect(getClient('session-a')).toBe(getClient('session-a'));
+    expect(getClient()).toBe(getClient());
+  });
+
+  it('should isolate auth state between sessions', () => {
+    const a = getClient('session-a');
+    const b = getClient('session-b');
+    
+    expect(a).not.toBe(b);
+    
+    a.authStore.save('token', { id: 'admin1', collectionName: '_superusers' } as never);
+    
+    expect(getAuthState('session-a').model?.id).toBe('admin1');
+    expect(getAuthState('session-b').model).toBeNull();
+    expect(getAuthState().model).toBeNull();
+  });
+
+  it('should create a fresh client after release', () => {
+    const a = getClient('session-a');
+    a.authStore.save('token', { id: 'admin1', collectionName: '_superusers' } as never);
+    
+    releaseClient('session-a');
+    
+    expect(a.authStore.token).toBe('');
+    expect(getClient('session-a')).not.toBe(a);
+  });
+
+  it('should throw when POCKETBASE_URL is not set', () => {
+    vi.stubEnv('POCKETBASE_URL', '');
+    
+    expect(() => getClient('session-c')).toThrow(/POCKETBASE_URL/);
+  });
+});
+
+describe('getInstance', () => {
+  beforeEach(() => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should resolve the default instance', () => {
+    expect(getInstance().url).toBe('http://127.0.0.1:8090');
+  });
+
+  it('should throw NOT_FOUND for unknown instance', () => {
+    try {
+      getInstance('missing');
+      expect.unreachable();
+    } catch (error) {
+      expect(isErrorResponse(error)).toBe(true);
+      expect((error as ReturnType<typeof createErrorResponse>).error.code).toBe('NOT_FOUND');
+    }
+  });
+
+  it('should apply token from the profile credentials source', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pb-mcp-'));
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify({
+      instances: {
+        dev: { url: 'http://127.0.0.1:8090' },
+        prod: { url: 'http://127.0.0.1:8091', tokenEnv: 'PB_PROD_TOKEN' },
+      },
+    }));
+    vi.stubEnv('POCKETBASE_MCP_CONFIG', path);
+    vi.stubEnv('PB_PROD_TOKEN', 'prod-token');
+    
+    const dev = getClient('session-a', 'dev');
+    const prod = getClient('session-a', 'prod');
+    
+    expect(dev).not.toBe(prod);
+    expect(dev.authStore.token).toBe('');
+    expect(prod.authStore.token).toBe('prod-token');
+    expect(prod.baseURL).toBe('http://127.0.0.1:8091');
+  });
+});
+
+describe('read-only mode', () => {
+  beforeEach(() => {
+    vi.stubEnv('POCKETBASE_URL', 'http://127.0.0.1:8090');
+    resetClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should be writable by default', () => {
+    expect(isReadOnly()).toBe(false);
+    expect(() => requireWritable()).not.toThrow();
+  });
+
+  it('should refuse writes when POCKETBASE_MCP_READONLY is set', () => {
+    vi.stubEnv('POCKETBASE_MCP_READONLY', '1');
+    
+    expect(isReadOnly()).toBe(true);
+    try {
+      requireWritable();
+      expect.unreachable();
+    } catch (error) {
+      expect(isErrorResponse(error)).toBe(true);
+      expect((error as ReturnType<typeof createErrorResponse>).error.code).toBe('PERMISSION_DENIED');
+    }
+  });
+
+  it('should block mutating requests at the client level', async () => {
+    vi.stubEnv('POCKETBASE_MCP_READONLY', 'true');
+    
+    const pb = getClient('session-ro');
+    
+    await expect(pb.collection('posts').create({ title: 'x' })).rejects.toMatchObject({
+      error: { code: 'PERMISSION_DENIED' },
+    });
+    await expect(pb.collection('posts').delete('abc123')).rejects.toMatchObject({
+      error: { code: 'PERMISSION_DENIED' },
+    });
+  });
+
+  it('should honor the profile readOnly flag', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pb-mcp-'));
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify({
+      instances: {
+        dev: { url: 'http://127.0.0.1:8090' },
+        prod: { url: 'http://127.0.0.1:8091', readOnly: true },
+      },
+    }));
+    vi.stubEnv('POCKETBASE_MCP_CONFIG', path);
+    
+    expect(isReadOnly('dev')).toBe(false);
+    expect(isReadOnly('prod')).toBe(true);
+    expect(() => requireWritable('prod')).toThrow();
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Unit tests for record payload validation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type PocketBase from 'pocketbase';
+import type { CollectionModel } from 'pocketbase';
+import { validateRecordData, requireValidPayload, requireJsonFields } from '../../src/services/validation.js';
+
+/**
+ * Build a collection model with the given fields
+ */
+function collection(fields: Record<string, unknown>[], type: 'base' | 'auth' = 'base'): CollectionModel {
+  return {
+    id: 'pbc_posts',
+    name: 'posts',
+    type,
+    fields: fields.map(f => ({ id: `f_${f.name}`, system: false, hidden: false, presentable: false, ...f })),
+  } as unknown as CollectionModel;
+}
+
+const posts = collection([
+  { name: 'id', type: 'text', required: true, autogeneratePattern: '[a-z0-9]{15}', primaryKey: true },
+  { name: 'title', type: 'text', required: true },
+  { name: 'views', type: 'number' },
+  { name: 'published', type: 'bool' },
+  { name: 'tags', type: 'select', maxSelect: 3, values: ['a', 'b'] },
+  { name: 'created', type: 'autodate', onCreate: true },
+]);
+
+describe('validateRecordData', () => {
+  it('should accept a valid payload', () => {
+    expect(validateRecordData(posts, { title: 'Hello', views: 3, published: true, tags: ['a'] }, { partial: false })).toEqual({});
+  });
+
+  it('should report missing required fields on create', () => {
+    const errors = validateRecordData(posts, { views: 1 }, { partial: false });
+    
+    expect(errors.title).toMatch(/required/i);
+    expect(errors.id).toBeUndefined();
+    expect(errors.created).toBeUndefined();
+  });
+
+  it('should not report missing required fields on partial update', () => {
+    expect(validateRecordData(posts, { views: 2 }, { partial: true })).toEqual({});
+  });
+
+  it('should report unknown fields', () => {
+    const errors = validateRecordData(posts, { title: 'x', titel: 'typo' }, { partial: false });
+    
+    expect(errors.titel).toMatch(/Unknown field/);
+  });
+
+  it('should report type mismatches', () => {
+    const errors = validateRecordData(posts, { title: { text: 'x' }, views: 'many', published: 'yes' }, { partial: true });
+    
+    expect(Object.keys(errors).sort()).toEqual(['published', 'title', 'views']);
+  });
+
+  it('should accept values PocketBase casts to the field type', () => {
+    expect(validateRecordData(posts, { title: 123 }, { partial: true })).toEqual({});
+    expect(validateRecordData(posts, { title: true, views: '42', published: 1 }, { partial: true })).toEqual({});
+    expect(validateRecordData(posts, { published: '0' }, { partial: true })).toEqual({});
+    expect(validateRecordData(posts, { published: 2 }, { partial: true }).published).toMatch(/Expected a boolean/);
+  });
+
+  it('should check field modifiers against the field type', () => {
+    expect(validateRecordData(posts, { 'tags+': 'a', '+tags': ['b'], 'tags-': 'a', 'views+': 1 }, { partial: true })).toEqual({});
+    
+    const errors = validateRecordData(posts, { 'title+': 'x', '+views': 1, 'views-': 'lots', 'missing+': 1 }, { partial: true });
+    expect(Object.keys(errors).sort()).toEqual(['+views', 'missing+', 'title+', 'views-']);
+    expect(errors['title+']).toMatch(/not supported/);
+  });
+
+  it('should accept password fields on auth collections', () => {
+    const users = collection([{ name: 'email', type: 'email', required: true }], 'auth');
+    
+    expect(validateRecordData(users, { email: 'a@b.co', password: 'x', passwordConfirm: 'x' }, { partial: false })).toEqual({});
+  });
+});
+
+const profiles = collection([
+  { name: 'handle', type: 'text', required: true, min: 3, max: 8, pattern: '^[a-z]+$' },
+  { name: 'age', type: 'number', min: 0, max: 150, onlyInt: true },
+  { name: 'email', type: 'email', onlyDomains: ['example.com'] },
+  { name: 'site', type: 'url' },
+  { name: 'role', type: 'select', maxSelect: 1, values: ['admin', 'editor', 'viewer'] },
+  { name: 'owner', type: 'relation', maxSelect: 1, collectionId: 'pbc_users' },
+  { name: 'friends', type: 'relation', maxSelect: 2, collectionId: 'pbc_users' },
+]);
+
+describe('validateRecordData constraints', () => {
+  it('should accept values within the constraints', () => {
+    expect(validateRecordData(profiles, {
+      handle: 'ann',
+      age: 30,
+      email: 'ann@example.com',
+      site: 'example.org/ann',
+      role: 'editor',
+      owner: 'abc123def456ghi',
+      friends: ['a1', 'b2'],
+    }, { partial: false })).toEqual({});
+  });
+
+  it('should report every problem at once', () => {
+    const errors = validateRecordData(profiles, {
+      handle: 'Ann Smith!',
+      age: 12.5,
+      email: 'ann@other.org',
+      site: 'not a url',
+      role: 'editr',
+      owner: 'Ann Smith',
+      friends: ['a1', 'b2', 'c3'],
+      nmae: 'x',
+    }, { partial: false });
+
+    expect(errors).toEqual({
+      handle: 'Too long: 10 characters, at most 8 allowed',
+      age: 'Must be a whole number (e.g. 13)',
+      email: 'Domain "other.org" is not allowed. Allowed: example.com',
+      site: 'Invalid URL (e.g. "https://example.com/page")',
+      role: 'Not an allowed value: "editr". Did you mean "editor"? Allowed: admin, editor, viewer',
+      owner: expect.stringContaining('Not a record ID: "Ann Smith"'),
+      friends: 'Too many values: 3, at most 2 allowed',
+      nmae: 'Unknown field for collection "posts"',
+    });
+  });
+
+  it('should check patterns, ranges and single-value fields', () => {
+    const errors = validateRecordData(profiles, { handle: 'ANN', age: 200, role: ['admin', 'viewer'], email: 'ann' }, { partial: true });
+
+    expect(errors.handle).toBe('Does not match the required pattern ^[a-z]+$; change the value to fit it');
+    expect(errors.age).toBe('Must be at most 150');
+    expect(errors.role).toBe('Only one value allowed; pass a single string');
+    expect(errors.email).toMatch(/Invalid email/);
+  });
+
+  it('should accept matching patterns and skip patterns JavaScript cannot compile', () => {
+    expect(validateRecordData(profiles, { handle: 'ann' }, { partial: true })).toEqual({});
+
+    const goOnly = collection([{ name: 'code', type: 'text', pattern: '(?P<code>[A-Z]+)' }]);
+    expect(validateRecordData(goOnly, { code: 'anything' }, { partial: true })).toEqual({});
+  });
+
+  it('should suggest close field names and reject emptying required fields', () => {
+    const errors = validateRecordData(profiles, { handel: 'ann', handle: '' }, { partial: true });
+
+    expect(errors.handel).toBe('Unknown field for collection "posts". Did you mean "handle"?');
+    expect(errors.handle).toBe('Required field cannot be empty');
+  });
+
+  it('should check values added by modifiers without counting them', () => {
+    expect(validateRecordData(profiles, { 'friends+': ['c3', 'd4', 'e5'] }, { partial: true })).toEqual({});
+    expect(validateRecordData(profiles, { 'role-': 'nope' }, { partial: true }).role).toBeUndefined();
+    expect(validateRecordData(profiles, { 'role-': 'nope' }, { partial: true })['role-']).toMatch(/Not an allowed value/);
+  });
+
+  it('should count added modifier values as supplying a required field', () => {
+    const data = { handle: 'ann', 'friends+': ['a1'] };
+    const required = { ...profiles, fields: profiles.fields.map(f => f.name === 'friends' ? { ...f, required: true } : f) };
+
+    expect(validateRecordData(required, data, { partial: false }).friends).toBeUndefined();
+    expect(validateRecordData(required, { handle: 'ann', 'friends-': ['a1'] }, { partial: false }).friends)
+      .toBe('Missing required value');
+  });
+});
+
+describe('requireValidPayload', () => {
+  function fakeClient(isSuperuser: boolean) {
+    const getOne = vi.fn(async () => profiles);
+    return { pb: { authStore: { isSuperuser }, collections: { getOne } } as unknown as PocketBase, getOne };
+  }
+
+  it('should throw a validation error with all field errors', async () => {
+    const { pb } = fakeClient(true);
+
+    await expect(requireValidPayload(pb, 'profiles', { handle: 'x', role: 'owner' }, { partial: true }))
+      .rejects.toMatchObject({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Data does not match the "profiles" schema (2 problems)',
+          fieldErrors: { handle: expect.any(String), role: expect.any(String) },
+        },
+      });
+  });
+
+  it('should skip the check without admin auth', async () => {
+    const { pb, getOne } = fakeClient(false);
+
+    await expect(requireValidPayload(pb, 'profiles', { handle: 'x' }, { partial: true })).resolves.toBeUndefined();
+    expect(getOne).not.toHaveBeenCalled();
+  });
+});
+
+describe('requireJsonFields', () => {
+  const articles = collection([
+    { name: 'title', type: 'text' },
+    { name: 'meta', type: 'json' },
+  ]);
+
+  function fakeClient(isSuperuser: boolean) {
+    const getOne = vi.fn(async () => articles);
+    return { pb: { authStore: { isSuperuser }, collections: { getOne } } as unknown as PocketBase, getOne };
+  }
+
+  it('should accept json fields', async () => {
+    const { pb } = fakeClient(true);
+
+    await expect(requireJsonFields(pb, 'articles', ['meta'])).resolves.toBeUndefined();
+  });
+
+  it('should report fields that are not json fields', async () => {
+    const { pb } = fakeClient(true);
+
+    await expect(requireJsonFields(pb, 'articles', ['title', 'mta'])).rejects.toMatchObject({
+      error: {
+        code: 'VALIDATION_ERROR',
+        fieldErrors: {
+          title: 'JSON Patch only applies to json fields, not text fields; set the value in data instead',
+          mta: expect.stringContaining('Did you mean "meta"?'),
+        },
+      },
+    });
+  });
+
+  it('should skip the check without admin auth', async () => {
+    const { pb, getOne } = fakeClient(false);
+
+    await expect(requireJsonFields(pb, 'articles', ['title'])).resolves.toBeUndefined();
+    expect(getOne).not.toHaveBeenCalled();
+  });
+});